@@ -3,12 +3,15 @@
 export type IObservableMapInitialValues<K, V> = IMapEntries<K, V> | KeyValueMap<V> | IMap<K, V>
 
 export interface IMobxConfigurationOptions {
-    enforceActions?: boolean,
+    enforceActions?: boolean | "never" | "observed" | "always",
     computedRequiresReaction?: boolean,
+    observableRequiresReaction?: boolean,
     isolateGlobalState?: boolean,
     disableErrorBoundaries?: boolean,
     arrayBuffer?: number,
-    reactionScheduler?: (f: () => void) => void
+    reactionScheduler?: (f: () => void) => void,
+    recomputeStats?: boolean,
+    trackReactions?: boolean
 }
 
 declare export function configure(options: IMobxConfigurationOptions): void
@@ -49,13 +52,15 @@ export interface IMap<K, V> {
 }
 
 declare export function isObservableMap(x: any): boolean
+declare export function isObservableSet(x: any): boolean
 
 export interface IComputedValueOptions<T> {
     get?: () => T,
     set?: (value: T) => void,
     name?: string,
     equals?: IEqualsComparer<T>,
-    context?: any
+    context?: any,
+    onError?: (error: any) => T
 }
 
 declare type PropertyDescriptor = any
@@ -85,7 +90,9 @@ export interface IAtom {
 export interface IComputedValue<T> {
     get(): T,
     set(value: T): void,
-    observe(listener: (newValue: T, oldValue: T) => void, fireImmediately?: boolean): Lambda
+    observe(listener: (newValue: T, oldValue: T) => void, fireImmediately?: boolean): Lambda,
+    +isErrored: boolean,
+    +error: any
 }
 
 export interface IObservable {}
@@ -185,6 +192,20 @@ export interface IMapWillChange<T> {
     newValue?: any
 }
 
+export interface ISetChange<T> {
+    object: ObservableSet<T>,
+    type: "add" | "delete",
+    newValue?: T,
+    oldValue?: T
+}
+
+export interface ISetWillChange<T> {
+    object: ObservableSet<T>,
+    type: "add" | "delete",
+    newValue?: T,
+    oldValue?: T
+}
+
 export interface IObservableObject {}
 
 export interface IObjectChange {
@@ -230,6 +251,7 @@ export interface IObservableFactory {
     <T>(value: null | void): IObservableValue<T>,
     (value: null | void): IObservableValue<any>,
     <T>(value: IMap<string | number | boolean, T>): ObservableMap<T>,
+    <T>(value: Set<T>): ObservableSet<T>,
     <T: Object>(value: T): T
 }
 
@@ -237,6 +259,7 @@ declare export class IObservableFactories {
     box<T>(value?: T, name?: string): IObservableValue<T>,
     array<T>(initialValues?: T[], name?: string): IObservableArray<T>,
     map<T>(initialValues?: IObservableMapInitialValues<T>, name?: string): ObservableMap<T>,
+    set<T>(initialValues?: Set<T> | T[], name?: string): ObservableSet<T>,
     object<T>(props: T, name?: string): T & IObservableObject,
     ref(target: Object, property?: string, descriptor?: PropertyDescriptor): any,
     shallow(target: Object, property?: string, descriptor?: PropertyDescriptor): any,
@@ -282,6 +305,25 @@ declare export class ObservableMap<K, V> {
     intercept(handler: IInterceptor<IMapWillChange<K, V>>): Lambda
 }
 
+declare export class ObservableSet<T> {
+    constructor(initialData?: Set<T> | T[], enhancer?: Function, name?: string): this,
+    has(value: T): boolean,
+    add(value: T): ObservableSet<T>,
+    delete(value: T): boolean,
+    keys(): Iterator<T>,
+    values(): Iterator<T>,
+    entries(): Iterator<[T, T]>,
+    forEach(callback: (value: T, value2: T, set: ObservableSet<T>) => void, thisArg?: any): void,
+    clear(): void,
+    replace(other: ObservableSet<T> | Set<T> | T[]): ObservableSet<T>,
+    size: number,
+    toJS(): Set<T>,
+    toJSON(): T[],
+    toString(): string,
+    observe(listener: (changes: ISetChange<T>) => void, fireImmediately?: boolean): Lambda,
+    intercept(handler: IInterceptor<ISetWillChange<T>>): Lambda
+}
+
 declare export function action(
     targetOrName: any,
     propertyKeyOrFuc?: any,
@@ -292,6 +334,8 @@ declare export function action<T>(func: T): T
 
 declare export function runInAction<T>(name: string, block: () => T): T
 declare export function runInAction<T>(block: () => T): T
+declare export function runInAtomicAction<T>(name: string, block: () => T): T
+declare export function runInAtomicAction<T>(block: () => T): T
 declare export function isAction(thing: any): boolean
 declare export function autorun(
     nameOrFunction: string | ((r: IReactionPublic) => any),
@@ -306,7 +350,8 @@ declare export function reaction<T>(
 export interface IWhenOptions {
     name?: string,
     timeout?: number,
-    onError?: (error: any) => void
+    onError?: (error: any) => void,
+    signal?: IAbortSignal
 }
 
 declare export function when(cond: () => boolean, effect: Lambda, options?: IWhenOptions): any
@@ -318,6 +363,23 @@ declare export function computed<T>(
     baseDescriptor?: PropertyDescriptor
 ): any
 
+export interface IComputedFnOptions<T> {
+    name?: string,
+    equals?: IEqualsComparer<T>
+}
+
+declare export function computedFn<T: Function>(
+    fn: T,
+    options?: IComputedFnOptions<any> | IEqualsComparer<any>
+): T
+
+export type ITransformer<A, B> = (object: A) => B
+
+declare export function createTransformer<A, B>(
+    transformer: ITransformer<A, B>,
+    onCleanup?: (resultObject: B | void, sourceObject: A) => void
+): ITransformer<A, B>
+
 declare export function extendObservable<A, B>(
     target: A,
     properties: B,
@@ -387,9 +449,168 @@ export interface ToJSOptions {
 
 declare export function toJS<T>(source: T, options?: ToJSOptions): T
 
+export interface IJsonPatch {
+    op: "replace" | "add" | "remove",
+    path: string,
+    value?: any
+}
+
+export type IDeepChange = IObjectChange | IArrayChange<any> | IArraySplice<any> | IMapChange<any>
+
+declare export function deepObserve<T>(
+    root: T,
+    listener: (change: IDeepChange, path: string, root: T) => void
+): Lambda
+
+declare export function getSnapshot(node: any): any
+
+declare export function onPatch(
+    node: any,
+    listener: (patch: IJsonPatch, reversePatch: IJsonPatch) => void
+): Lambda
+
+declare export function applyPatch(node: any, patch: IJsonPatch | IJsonPatch[]): void
+
+export interface IUndoManager {
+    +canUndo: boolean,
+    +canRedo: boolean,
+    undo(): void,
+    redo(): void,
+    clear(): void,
+    dispose(): void
+}
+
+declare export function createUndoManager(root: any, name?: string): IUndoManager
+
+export type OptimisticUpdateState = "pending" | "committed" | "reverted"
+
+export interface IOptimisticUpdate<T> {
+    +name: string,
+    +result: T,
+    +state: OptimisticUpdateState,
+    commit(): void,
+    revert(): void,
+    settleWith<R>(promise: Promise<R>): Promise<R> & { cancel(): void }
+}
+
+declare export function optimistic<T>(name: string, fn: () => T): IOptimisticUpdate<T>
+declare export function optimistic<T>(fn: () => T): IOptimisticUpdate<T>
+
 declare export function untracked<T>(action: () => T): T
 
-declare export function spy(listener: (change: any) => void): Lambda
+export interface IReactiveContext {
+    +isMobXReactiveContext: true
+}
+
+declare export function createReactiveContext(): IReactiveContext
+declare export function runInContext<T>(context: IReactiveContext, fn: () => T): T
+
+export type SpyEventData =
+    | { type: "action", name: string, object: any, arguments: any[], spyReportStart?: boolean }
+    | { type: "reaction", name: string, spyReportStart?: boolean }
+    | { type: "scheduled-reaction", name: string }
+    | { type: "compute", name: string, object: any, spyReportStart?: boolean }
+    | {
+          type: "update",
+          name: string,
+          object: any,
+          key?: any,
+          index?: number,
+          newValue: any,
+          oldValue: any,
+          spyReportStart?: boolean
+      }
+    | { type: "add", name: string, object: any, key?: any, newValue: any, spyReportStart?: boolean }
+    | {
+          type: "remove" | "delete",
+          name: string,
+          object: any,
+          key?: any,
+          oldValue: any,
+          spyReportStart?: boolean
+      }
+    | {
+          type: "splice",
+          name: string,
+          object: any,
+          index: number,
+          removed: any[],
+          added: any[],
+          removedCount: number,
+          addedCount: number,
+          spyReportStart?: boolean
+      }
+    | { type: "create", name: string, object: any, newValue: any }
+    | { type: "error", name: string, message: string, error: string }
+    | { type: "report-end", spyReportEnd: true, time?: number }
+
+export type SpyEvent = SpyEventData & { id: number, parentId?: number }
+
+declare export function spy(listener: (change: SpyEvent) => void): Lambda
+
+export interface ILogSink {
+    write(line: string): void
+}
+
+export interface ILoggerOptions {
+    types?: string[],
+    name?: string | RegExp,
+    sink?: "console" | string[] | ILogSink,
+    indent?: string
+}
+
+declare export function createLogger(options?: ILoggerOptions): Lambda
+
+export type ProfiledEventType = "action" | "reaction" | "compute"
+
+export interface IProfileEntry {
+    name: string,
+    type: ProfiledEventType,
+    count: number,
+    totalTime: number,
+    selfTime: number
+}
+
+export interface IChromeTraceEvent {
+    name: string,
+    cat: string,
+    ph: "X",
+    ts: number,
+    dur: number,
+    pid: number,
+    tid: number
+}
+
+export interface IProfileReport {
+    duration: number,
+    entries: IProfileEntry[],
+    toChromeTrace(): { traceEvents: IChromeTraceEvent[] }
+}
+
+declare export function startProfiling(): void
+
+export interface IRecomputeStats {
+    name: string,
+    type: "computed" | "reaction",
+    runs: number,
+    wasted: number
+}
+
+declare export function getRecomputeStats(): IRecomputeStats[]
+
+declare export function resetRecomputeStats(): void
+
+declare export function stopProfiling(): IProfileReport
+
+export interface IActionCall {
+    name: string,
+    scope: any,
+    args: any[]
+}
+
+export type IActionMiddleware = (call: IActionCall, next: () => any) => any
+
+declare export function addActionMiddleware(middleware: IActionMiddleware): Lambda
 
 declare export function transaction<T>(action: () => T, thisArg?: any, report?: boolean): T
 
@@ -422,11 +643,42 @@ declare export function createAtom(
 
 declare export function decorate<T>(target: T, decorators: any): T
 
-declare export function flow<T>(fn: (...args: any[]) => T): (...args: any[]) => Promise<T>
-declare export function flow<T>(
-    name: string,
-    fn: (...args: any[]) => T
-): (...args: any[]) => Promise<T>
+export interface IAbortSignal {
+    +aborted: boolean,
+    addEventListener(type: "abort", listener: () => void): void,
+    removeEventListener(type: "abort", listener: () => void): void
+}
+
+export type FlowConcurrency = "every" | "latest" | "exhaust" | "queue"
+
+export interface IFlowOptions {
+    concurrency?: FlowConcurrency
+}
+
+export type IFlowFunction<F> = F & { withSignal(signal: IAbortSignal): F }
+
+export interface IFlowStatus<R> {
+    +state: "idle" | "pending" | "fulfilled" | "rejected",
+    +value: R | void,
+    +error: any,
+    +runCount: number
+}
+
+export interface IFlowFactory {
+    <T>(
+        fn: (...args: any[]) => T,
+        options?: IFlowOptions
+    ): IFlowFunction<(...args: any[]) => Promise<T>>,
+    <T>(name: string, fn: (...args: any[]) => T): (...args: any[]) => Promise<T>,
+    tracked<T>(
+        fn: (...args: any[]) => T,
+        options?: IFlowOptions
+    ): IFlowFunction<(...args: any[]) => Promise<T>> & IFlowStatus<T>
+}
+
+declare export var flow: IFlowFactory
+
+declare export function getFlowSignal(): IAbortSignal | void
 
 declare export function keys<K>(map: ObservableMap<K, any>): K[]
 declare export function keys(obj: any): string[]
@@ -481,3 +733,56 @@ declare export function getAtom(thing: any, property?: string): IDepTreeNode
 declare export function getDebugName(thing: any, property?: string): string
 declare export function getDependencyTree(thing: any, property?: string): IDependencyTree
 declare export function getObserverTree(thing: any, property?: string): IObserverTree
+
+export type DerivationStateName = "not-tracking" | "up-to-date" | "possibly-stale" | "stale"
+
+export interface IDerivationInfo {
+    name: string,
+    kind: "computed" | "reaction",
+    state: DerivationStateName,
+    lastComputeDuration: number,
+    computeCount: number,
+    observerCount: number,
+    triggeredBy: ?string,
+    isErrored: boolean,
+    error: any
+}
+
+declare export function getDerivationInfo(thing: any, property?: string): IDerivationInfo
+
+export type DependencyGraphNodeKind = "atom" | "computed" | "reaction"
+
+export interface IDependencyGraphNode {
+    id: string,
+    name: string,
+    kind: DependencyGraphNodeKind,
+    state?: number
+}
+
+export interface IDependencyGraphEdge {
+    from: string,
+    to: string
+}
+
+export interface IDependencyGraph {
+    nodes: IDependencyGraphNode[],
+    edges: IDependencyGraphEdge[],
+    toDot(): string
+}
+
+declare export function exportDependencyGraph(roots?: any[]): IDependencyGraph
+
+export interface IActiveReaction {
+    name: string,
+    reaction: Reaction,
+    age: number,
+    creationStack: ?string
+}
+
+export interface IReportLeaksOptions {
+    olderThan?: number
+}
+
+declare export function getActiveReactions(): IActiveReaction[]
+
+declare export function reportLeaks(options?: IReportLeaksOptions): IActiveReaction[]
@@ -1,5 +1,5 @@
 import { invariant, fail, addHiddenProp } from "../utils/utils"
-import { createAction, executeAction, IAction } from "../core/action"
+import { createAction, executeAction, executeAtomicAction, IAction } from "../core/action"
 import { namedActionDecorator, boundActionDecorator } from "./actiondecorator"
 
 export interface IActionFactory {
@@ -40,6 +40,10 @@ export interface IActionFactory {
 
     // @action.bound decorator
     bound(target: Object, propertyKey: string, descriptor?: PropertyDescriptor): void
+
+    // atomic actions, that revert all their changes if they throw
+    atomic<T extends Function>(fn: T): T & IAction
+    atomic<T extends Function>(name: string, fn: T): T & IAction
 }
 
 export var action: IActionFactory = function action(arg1, arg2?, arg3?, arg4?): any {
@@ -63,23 +67,41 @@ export var action: IActionFactory = function action(arg1, arg2?, arg3?, arg4?):
 
 action.bound = boundActionDecorator as any
 
+action.atomic = function atomic(arg1, arg2?): any {
+    if (typeof arg1 === "function") return createAction(arg1.name || "<unnamed action>", arg1, true)
+    return createAction(arg1, arg2, true)
+} as any
+
 export function runInAction<T>(block: () => T): T
 export function runInAction<T>(name: string, block: () => T): T
 export function runInAction(arg1, arg2?) {
     // TODO: deprecate?
+    return runInActionHelper(executeAction, arg1, arg2, this)
+}
+
+/**
+ * Like runInAction, but reverts all changes made to observables if the block throws
+ */
+export function runInAtomicAction<T>(block: () => T): T
+export function runInAtomicAction<T>(name: string, block: () => T): T
+export function runInAtomicAction(arg1, arg2?) {
+    return runInActionHelper(executeAtomicAction, arg1, arg2, this)
+}
+
+function runInActionHelper(executor: typeof executeAction, arg1, arg2, scope) {
     const actionName = typeof arg1 === "string" ? arg1 : arg1.name || "<unnamed action>"
     const fn = typeof arg1 === "function" ? arg1 : arg2
 
     if (process.env.NODE_ENV !== "production") {
         invariant(
             typeof fn === "function" && fn.length === 0,
-            "`runInAction` expects a function without arguments"
+            "`runInAction` and `runInAtomicAction` expect a function without arguments"
         )
         if (typeof actionName !== "string" || !actionName)
             fail(`actions should have valid names, got: '${actionName}'`)
     }
 
-    return executeAction(actionName, fn, this, undefined)
+    return executor(actionName, fn, scope, undefined)
 }
 
 export function isAction(thing: any) {
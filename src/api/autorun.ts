@@ -152,6 +152,7 @@ export function reaction<T>(
         r.track(() => {
             const nextValue = expression(r)
             changed = firstTime || !equals(value, nextValue)
+            r._isRunWasted = !changed
             value = nextValue
         })
         if (firstTime && opts.fireImmediately!) effectAction(value, r)
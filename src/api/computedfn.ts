@@ -0,0 +1,96 @@
+import { ComputedValue } from "../core/computedvalue"
+import { isComputingDerivation } from "../core/derivation"
+import { IEqualsComparer } from "../utils/comparer"
+import { fail, invariant, toDebugString } from "../utils/utils"
+import { isAction } from "./action"
+import { onBecomeUnobserved } from "./become-observed"
+
+export interface IComputedFnOptions<T> {
+    name?: string
+    equals?: IEqualsComparer<T>
+}
+
+/**
+ * Creates a function that memoizes its results per combination of `this` and arguments.
+ * Every combination is backed by its own computed value, so reactions that call the function
+ * only re-evaluate it when something it depends on changes.
+ * A memoized entry is removed as soon as it is no longer observed.
+ *
+ * Outside reactive contexts the function is simply evaluated, without memoization.
+ * Arguments are compared by identity.
+ */
+export function computedFn<T extends Function>(
+    fn: T,
+    options: IComputedFnOptions<any> | IEqualsComparer<any> = {}
+): T {
+    if (process.env.NODE_ENV !== "production") {
+        invariant(typeof fn === "function", "`computedFn` expects a function")
+        if (isAction(fn)) fail("`computedFn` shouldn't be used on actions")
+    }
+    const opts: IComputedFnOptions<any> =
+        typeof options === "function" ? { equals: options } : options
+    const name = opts.name || (fn as any).name || "<unnamed computedFn>"
+    const memo = new DeepMap<ComputedValue<any>>()
+
+    return function(this: any) {
+        const args = Array.prototype.slice.call(arguments)
+        const key = [this, ...args]
+        const existing = memo.get(key)
+        if (existing) return existing.get()
+        // there is no one to clean up a memoized entry if nobody observes it
+        if (!isComputingDerivation()) return fn.apply(this, args)
+
+        const scope = this
+        const entry = new ComputedValue({
+            name:
+                process.env.NODE_ENV !== "production"
+                    ? `${name}(${args.map(toDebugString).join(", ")})`
+                    : name,
+            get: () => fn.apply(scope, args),
+            equals: opts.equals
+        })
+        memo.set(key, entry)
+        onBecomeUnobserved(entry, () => memo.delete(key))
+        return entry.get()
+    } as any
+}
+
+/**
+ * Map with variable length arrays as keys. Key parts are compared by identity.
+ */
+class DeepMap<T> {
+    private root = new Map<any, any>()
+
+    get(key: any[]): T | undefined {
+        let node = this.root
+        for (let i = 0; i < key.length; i++) {
+            node = node.get(key[i])
+            if (!node) return undefined
+        }
+        return node.get(DeepMap.VALUE)
+    }
+
+    set(key: any[], value: T) {
+        let node = this.root
+        for (let i = 0; i < key.length; i++) {
+            let child = node.get(key[i])
+            if (!child) node.set(key[i], (child = new Map()))
+            node = child
+        }
+        node.set(DeepMap.VALUE, value)
+    }
+
+    delete(key: any[]) {
+        const path = [this.root]
+        for (let i = 0; i < key.length; i++) {
+            const child = path[i].get(key[i])
+            if (!child) return
+            path.push(child)
+        }
+        path[key.length].delete(DeepMap.VALUE)
+        // clean up nodes that became empty
+        for (let i = key.length; i > 0 && path[i].size === 0; i--) path[i - 1].delete(key[i - 1])
+    }
+
+    private static VALUE = {}
+}
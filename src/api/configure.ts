@@ -1,22 +1,48 @@
 import { globalState, isolateGlobalState } from "../core/globalstate"
 import { reserveArrayBuffer } from "../types/observablearray"
 import { setReactionScheduler } from "../core/reaction"
+import { fail } from "../utils/utils"
 
 export function configure(options: {
-    enforceActions?: boolean
+    enforceActions?: boolean | "never" | "observed" | "always"
     computedRequiresReaction?: boolean
+    observableRequiresReaction?: boolean
     isolateGlobalState?: boolean
     disableErrorBoundaries?: boolean
     arrayBuffer?: number
     reactionScheduler?: (f: () => void) => void
+    recomputeStats?: boolean
+    trackReactions?: boolean
 }): void {
     if (options.enforceActions !== undefined) {
-        globalState.enforceActions = !!options.enforceActions
-        globalState.allowStateChanges = !options.enforceActions
+        let enforceActions: "never" | "observed" | "always"
+        switch (options.enforceActions) {
+            case true:
+            case "observed":
+                enforceActions = "observed"
+                break
+            case false:
+            case "never":
+                enforceActions = "never"
+                break
+            case "always":
+                enforceActions = "always"
+                break
+            default:
+                return fail(
+                    `Invalid value for 'enforceActions': '${options.enforceActions}', expected 'never', 'always' or 'observed'`
+                )
+        }
+        globalState.enforceActions = enforceActions
+        globalState.allowStateChanges = enforceActions === "never"
     }
     if (options.computedRequiresReaction !== undefined) {
         globalState.computedRequiresReaction = !!options.computedRequiresReaction
     }
+    if (options.observableRequiresReaction !== undefined) {
+        globalState.observableRequiresReaction = !!options.observableRequiresReaction
+        globalState.allowStateReads = !options.observableRequiresReaction
+    }
     if (options.isolateGlobalState === true) {
         isolateGlobalState()
     }
@@ -30,6 +56,13 @@ export function configure(options: {
     if (typeof options.arrayBuffer === "number") {
         reserveArrayBuffer(options.arrayBuffer)
     }
+    if (options.recomputeStats !== undefined) {
+        globalState.recordRecomputeStats = !!options.recomputeStats
+    }
+    if (options.trackReactions !== undefined) {
+        globalState.trackReactions = !!options.trackReactions
+        if (!globalState.trackReactions) globalState.liveReactions = {}
+    }
     if (options.reactionScheduler) {
         setReactionScheduler(options.reactionScheduler)
     }
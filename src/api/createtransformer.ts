@@ -0,0 +1,54 @@
+import { ComputedValue } from "../core/computedvalue"
+import { isComputingDerivation } from "../core/derivation"
+import { invariant, toDebugString } from "../utils/utils"
+import { onBecomeUnobserved } from "./become-observed"
+
+export type ITransformer<A, B> = (object: A) => B
+
+/**
+ * Creates a function that maps source objects to derived objects, and memoizes the result per source (by identity).
+ * Each mapping is backed by a computed value, so the derived object is only recreated when something
+ * the `transformer` used changes. Once a mapping is no longer observed, it is removed and `onCleanup` is called
+ * with the last derived object and the source object.
+ *
+ * Outside reactive contexts the transformer is simply evaluated, without memoization.
+ */
+export function createTransformer<A, B>(
+    transformer: ITransformer<A, B>,
+    onCleanup?: (resultObject: B | undefined, sourceObject: A) => void
+): ITransformer<A, B> {
+    if (process.env.NODE_ENV !== "production")
+        invariant(
+            typeof transformer === "function" && transformer.length < 2,
+            "createTransformer expects a function that accepts one argument"
+        )
+
+    const views = new Map<A, ComputedValue<B>>()
+    const name = (transformer as any).name || "Transformer"
+
+    function createView(sourceObject: A): ComputedValue<B> {
+        let latestValue: B | undefined = undefined
+        const view = new ComputedValue<B>({
+            name:
+                process.env.NODE_ENV !== "production"
+                    ? `${name}-${toDebugString(sourceObject)}`
+                    : name,
+            get: () => (latestValue = transformer(sourceObject))
+        })
+        onBecomeUnobserved(view, () => {
+            views.delete(sourceObject)
+            if (onCleanup) onCleanup(latestValue, sourceObject)
+        })
+        return view
+    }
+
+    return (sourceObject: A) => {
+        let view = views.get(sourceObject)
+        if (view) return view.get()
+        // there is no one to clean up a memoized view if nobody observes it
+        if (!isComputingDerivation()) return transformer(sourceObject)
+        view = createView(sourceObject)
+        views.set(sourceObject, view)
+        return view.get()
+    }
+}
@@ -0,0 +1,147 @@
+import { isObservableArray, IArrayChange, IArraySplice } from "../types/observablearray"
+import { isObservableMap, IMapDidChange } from "../types/observablemap"
+import { isObservableObject, IObjectDidChange } from "../types/observableobject"
+import { untracked } from "../core/derivation"
+import { Lambda } from "../utils/utils"
+import { observe } from "./observe"
+import { keys } from "./object-api"
+
+export type IDeepChange = IObjectDidChange | IArrayChange | IArraySplice | IMapDidChange
+
+interface IDeepEntry {
+    parent: IDeepEntry | undefined
+    path: string
+    dispose: Lambda
+    /** how many times the observable has been added to the tree */
+    count: number
+}
+
+/**
+ * Observes the tree of observable objects, arrays and maps under `root`.
+ * Observables that are added to the tree are observed automatically, observables that are removed are no longer observed.
+ * The listener receives every change, together with the path of the changed observable relative to `root`.
+ * Paths are json pointers, for example `/todos/0`; changes to `root` itself have the path `""`.
+ *
+ * An observable that appears more than once in the tree (for example, briefly while swapping two items)
+ * is observed only once, and its changes are reported with the path of one of its locations.
+ */
+export function deepObserve<T = any>(
+    root: T,
+    listener: (change: IDeepChange, path: string, root: T) => void
+): Lambda {
+    const entries = new Map<any, IDeepEntry>()
+
+    function genericListener(change: IDeepChange) {
+        const entry = entries.get(change.object)!
+        processChange(change, entry)
+        listener(change, buildPath(entry), root)
+    }
+
+    function processChange(change: IDeepChange, parent: IDeepEntry) {
+        switch (change.type) {
+            case "add":
+                observeRecursively(change.newValue, parent, "" + change.name)
+                break
+            case "update": {
+                const key = "" + ("index" in change ? change.index : (change as any).name)
+                unobserveRecursively(change.oldValue, change.object, parent, key)
+                observeRecursively(change.newValue, parent, key)
+                break
+            }
+            case "remove":
+            case "delete":
+                unobserveRecursively(change.oldValue, change.object, parent, "" + change.name)
+                break
+            case "splice": {
+                change.removed.forEach((value, i) =>
+                    unobserveRecursively(value, change.object, parent, "" + (change.index + i))
+                )
+                change.added.forEach((value, i) =>
+                    observeRecursively(value, parent, "" + (change.index + i))
+                )
+                // the indices of all items after the splice have shifted
+                const values = change.object.slice()
+                for (let i = change.index + change.addedCount; i < values.length; i++) {
+                    const entry = entries.get(values[i])
+                    if (entry) {
+                        entry.parent = parent
+                        entry.path = "" + i
+                    }
+                }
+                break
+            }
+        }
+    }
+
+    function observeRecursively(thing: any, parent: IDeepEntry | undefined, path: string) {
+        if (!isDeepNode(thing)) return
+        const existing = entries.get(thing)
+        if (existing) {
+            // already observed elsewhere in the tree, report changes at the newest location
+            existing.count++
+            existing.parent = parent
+            existing.path = path
+            return
+        }
+        const entry: IDeepEntry = {
+            parent,
+            path,
+            dispose: observe(thing, genericListener),
+            count: 1
+        }
+        entries.set(thing, entry)
+        forEachChild(thing, (child, key) => observeRecursively(child, entry, key))
+    }
+
+    function unobserveRecursively(
+        thing: any,
+        container: any,
+        parent: IDeepEntry | undefined,
+        path: string
+    ) {
+        const entry = entries.get(thing)
+        if (!entry) return
+        if (--entry.count > 0) {
+            // still in the tree, if it was reported at the removed location, find where it remains
+            if (entry.parent === parent && entry.path === path)
+                forEachChild(container, (child, key) => {
+                    if (child === thing) entry.path = key
+                })
+            return
+        }
+        entries.delete(thing)
+        entry.dispose()
+        forEachChild(thing, (child, key) => unobserveRecursively(child, thing, entry, key))
+    }
+
+    untracked(() => observeRecursively(root, undefined, ""))
+
+    return () => {
+        entries.forEach(entry => entry.dispose())
+        entries.clear()
+    }
+}
+
+function isDeepNode(thing: any): boolean {
+    return isObservableObject(thing) || isObservableArray(thing) || isObservableMap(thing)
+}
+
+function forEachChild(thing: any, fn: (child: any, key: string) => void) {
+    if (isObservableArray(thing)) thing.forEach((child, index) => fn(child, "" + index))
+    else if (isObservableMap(thing)) thing.forEach((child, key) => fn(child, "" + key))
+    else keys(thing).forEach(key => fn(thing[key], key))
+}
+
+function buildPath(entry: IDeepEntry): string {
+    const parts: string[] = []
+    let current: IDeepEntry | undefined = entry
+    while (current && current.parent) {
+        parts.unshift(current.path)
+        current = current.parent
+    }
+    return parts.reduce(joinJsonPath, "")
+}
+
+export function joinJsonPath(path: string, key: string | number): string {
+    return path + "/" + ("" + key).replace(/~/g, "~0").replace(/\//g, "~1")
+}
@@ -1,6 +1,11 @@
 import { IDepTreeNode, getObservers, hasObservers } from "../core/observable"
-import { unique } from "../utils/utils"
+import { IDerivationState } from "../core/derivation"
+import { globalState } from "../core/globalstate"
+import { isComputedValue } from "../core/computedvalue"
+import { isReaction, getLiveReactions } from "../core/reaction"
+import { fail, unique } from "../utils/utils"
 import { getAtom } from "../types/type-utils"
+import { isObservableObject } from "../types/observableobject"
 
 export interface IDependencyTree {
     name: string
@@ -37,3 +42,195 @@ function nodeToObserverTree(node: IDepTreeNode): IObserverTree {
         result.observers = <any>getObservers(node as any).map(<any>nodeToObserverTree)
     return result
 }
+
+export type DerivationStateName = "not-tracking" | "up-to-date" | "possibly-stale" | "stale"
+
+export interface IDerivationInfo {
+    name: string
+    kind: "computed" | "reaction"
+    state: DerivationStateName
+    /**
+     * Duration of the last computation or reaction run in milliseconds
+     */
+    lastComputeDuration: number
+    /**
+     * How often the computed value was computed, or the reaction ran
+     */
+    computeCount: number
+    /**
+     * Number of derivations that observe the computed value. Always zero for reactions
+     */
+    observerCount: number
+    /**
+     * Name of the observable whose change caused the last invalidation
+     */
+    triggeredBy: string | undefined
+    /**
+     * Whether the last computation of the computed value threw. Always false for reactions
+     */
+    isErrored: boolean
+    /**
+     * The exception thrown by the last computation of the computed value, if any
+     */
+    error: any
+}
+
+// a switch rather than a lookup table, as IDerivationState might not be initialized yet when this module loads
+function getDerivationStateName(state: IDerivationState): DerivationStateName {
+    switch (state) {
+        case IDerivationState.NOT_TRACKING:
+            return "not-tracking"
+        case IDerivationState.UP_TO_DATE:
+            return "up-to-date"
+        case IDerivationState.POSSIBLY_STALE:
+            return "possibly-stale"
+        default:
+            return "stale"
+    }
+}
+
+/**
+ * Returns diagnostic information about a computed value or reaction
+ */
+export function getDerivationInfo(thing: any, property?: string): IDerivationInfo {
+    const derivation = getAtom(thing, property) as any
+    const isComputed = isComputedValue(derivation)
+    if (!isComputed && !isReaction(derivation))
+        return fail(
+            process.env.NODE_ENV !== "production" &&
+                `getDerivationInfo expects a computed value or reaction, got: '${derivation.name}'`
+        )
+    // read directly, as `isErrored` and `error` bring the computed value up to date first
+    const exception = isComputed ? derivation.caughtException : undefined
+    return {
+        name: derivation.name,
+        kind: isComputed ? "computed" : "reaction",
+        state: getDerivationStateName(derivation.dependenciesState),
+        lastComputeDuration: derivation.lastComputeDuration,
+        computeCount: derivation.computeCount,
+        observerCount: isComputed ? getObservers(derivation).length : 0,
+        triggeredBy: derivation.triggeredBy,
+        isErrored: exception !== undefined,
+        error: exception ? exception.cause : undefined
+    }
+}
+
+export type DependencyGraphNodeKind = "atom" | "computed" | "reaction"
+
+export interface IDependencyGraphNode {
+    id: string
+    name: string
+    kind: DependencyGraphNodeKind
+    /**
+     * The state of computed values and reactions
+     */
+    state?: IDerivationState
+}
+
+export interface IDependencyGraphEdge {
+    /**
+     * The id of the derivation
+     */
+    from: string
+    /**
+     * The id of the observable it depends on
+     */
+    to: string
+}
+
+export interface IDependencyGraph {
+    nodes: IDependencyGraphNode[]
+    edges: IDependencyGraphEdge[]
+    /**
+     * Serializes the graph to the Graphviz DOT format
+     */
+    toDot(): string
+}
+
+/**
+ * Collects the atoms, computed values and reactions that are connected to the given roots.
+ * Without roots, the graph of all running reactions and everything they depend on is collected,
+ * which requires `configure({ trackReactions: true })`.
+ * Roots can be anything `getAtom` accepts, or observable objects, which add all their properties.
+ */
+export function exportDependencyGraph(roots?: any[]): IDependencyGraph {
+    const ids = new Map<IDepTreeNode, string>()
+    const nodes: IDependencyGraphNode[] = []
+    const edges: IDependencyGraphEdge[] = []
+    const queue: IDepTreeNode[] = []
+
+    function visit(node: IDepTreeNode): string {
+        const existing = ids.get(node)
+        if (existing !== undefined) return existing
+        const derivation = node as any
+        // atoms don't have a __mapid, so they are numbered in order of discovery
+        const id: string = derivation.__mapid || "atom#" + ids.size
+        ids.set(node, id)
+        if (isReaction(node) || isComputedValue(node))
+            nodes.push({
+                id,
+                name: node.name,
+                kind: isReaction(node) ? "reaction" : "computed",
+                state: derivation.dependenciesState
+            })
+        else nodes.push({ id, name: node.name, kind: "atom" })
+        queue.push(node)
+        return id
+    }
+
+    if (roots) roots.forEach(root => getRootNodes(root).forEach(visit))
+    else if (globalState.trackReactions) getLiveReactions().forEach(visit)
+    else
+        fail(
+            process.env.NODE_ENV !== "production" &&
+                "exportDependencyGraph without roots requires `configure({ trackReactions: true })`"
+        )
+
+    while (queue.length) {
+        const node = queue.shift()!
+        const from = ids.get(node)!
+        if (node.observing)
+            unique(node.observing).forEach(dep => edges.push({ from, to: visit(dep) }))
+        if (hasObservers(node as any)) getObservers(node as any).forEach(visit)
+    }
+
+    return {
+        nodes,
+        edges,
+        toDot() {
+            return dependencyGraphToDot(nodes, edges)
+        }
+    }
+}
+
+function getRootNodes(root: any): IDepTreeNode[] {
+    if (isObservableObject(root)) {
+        const values = (root as any).$mobx.values
+        return Object.keys(values).map(key => values[key])
+    }
+    return [getAtom(root)]
+}
+
+const dotShapes = {
+    atom: "ellipse",
+    computed: "box",
+    reaction: "doubleoctagon"
+}
+
+function dependencyGraphToDot(nodes: IDependencyGraphNode[], edges: IDependencyGraphEdge[]) {
+    const lines = ["digraph mobx {"]
+    nodes.forEach(node => {
+        const label =
+            node.state === undefined ? node.name : `${node.name}\\n${IDerivationState[node.state]}`
+        lines.push(
+            `    ${dotString(node.id)} [label=${dotString(label)}, shape=${dotShapes[node.kind]}];`
+        )
+    })
+    edges.forEach(edge => lines.push(`    ${dotString(edge.from)} -> ${dotString(edge.to)};`))
+    lines.push("}")
+    return lines.join("\n")
+}
+
+function dotString(str: string) {
+    return `"${str.replace(/"/g, '\\"')}"`
+}
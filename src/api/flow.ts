@@ -1,125 +1,387 @@
 import { action } from "./action"
-import { noop } from "../utils/utils"
+import { observable } from "./observable"
+import { executeAction } from "../core/action"
+import { noop, fail, getGlobal, IAbortSignal, Lambda } from "../utils/utils"
 
 let generatorId = 0
 
 export type CancellablePromise<T> = Promise<T> & { cancel(): void }
 
-export function flow<R>(generator: () => IterableIterator<any>): () => CancellablePromise<R>
-export function flow<A1>(
-    generator: (a1: A1) => IterableIterator<any>
-): (a1: A1) => CancellablePromise<any> // Ideally we want to have R instead of Any, but cannot specify R without specifying A1 etc... 'any' as result is better then not specifying request args
-export function flow<A1, A2, A3, A4, A5, A6, A7, A8>(
-    generator: (
-        a1: A1,
-        a2: A2,
-        a3: A3,
-        a4: A4,
-        a5: A5,
-        a6: A6,
-        a7: A7,
-        a8: A8
-    ) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7, a8: A8) => CancellablePromise<any>
-export function flow<A1, A2, A3, A4, A5, A6, A7>(
-    generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7) => CancellablePromise<any>
-export function flow<A1, A2, A3, A4, A5, A6>(
-    generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6) => CancellablePromise<any>
-export function flow<A1, A2, A3, A4, A5>(
-    generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5) => CancellablePromise<any>
-export function flow<A1, A2, A3, A4>(
-    generator: (a1: A1, a2: A2, a3: A3, a4: A4) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3, a4: A4) => CancellablePromise<any>
-export function flow<A1, A2, A3>(
-    generator: (a1: A1, a2: A2, a3: A3) => IterableIterator<any>
-): (a1: A1, a2: A2, a3: A3) => CancellablePromise<any>
-export function flow<A1, A2>(
-    generator: (a1: A1, a2: A2) => IterableIterator<any>
-): (a1: A1, a2: A2) => CancellablePromise<any>
-export function flow<A1>(
-    generator: (a1: A1) => IterableIterator<any>
-): (a1: A1) => CancellablePromise<any>
-export function flow(generator: Function) {
-    if (arguments.length !== 1)
-        fail(process.env.NODE_ENV && `Flow expects one 1 argument and cannot be used as decorator`)
+/**
+ * Determines what happens when a flow is called while a previous run of the same flow is still pending:
+ * - `"every"`: every call starts a new run (the default)
+ * - `"latest"`: the pending run is cancelled, and a new run is started
+ * - `"exhaust"`: the call is ignored, and the promise of the pending run is returned
+ * - `"queue"`: the new run is started once all previous runs have settled
+ */
+export type FlowConcurrency = "every" | "latest" | "exhaust" | "queue"
+
+export interface IFlowOptions {
+    concurrency?: FlowConcurrency
+}
+
+/**
+ * A function created by `flow`. `withSignal(signal)` returns a variant of the function
+ * whose runs are cancelled when `signal` aborts.
+ */
+export type IFlowFunction<F> = F & { withSignal(signal: IAbortSignal): F }
+
+/**
+ * The observable state of the latest run of a function created by `flow.tracked`.
+ * `value` and `error` keep the outcome of the last settled run, while a new run is pending.
+ */
+export interface IFlowStatus<R = any> {
+    readonly state: "idle" | "pending" | "fulfilled" | "rejected"
+    readonly value: R | undefined
+    readonly error: any
+    readonly runCount: number
+}
+
+export type ITrackedFlowFunction<F, R = any> = IFlowFunction<F> & IFlowStatus<R>
+
+export interface IFlowFactory {
+    <R>(generator: () => IterableIterator<any>, options?: IFlowOptions): IFlowFunction<
+        () => CancellablePromise<R>
+    >
+    <A1>(generator: (a1: A1) => IterableIterator<any>, options?: IFlowOptions): IFlowFunction<
+        (a1: A1) => CancellablePromise<any>
+    > // Ideally we want to have R instead of Any, but cannot specify R without specifying A1 etc... 'any' as result is better then not specifying request args
+    <A1, A2, A3, A4, A5, A6, A7, A8>(
+        generator: (
+            a1: A1,
+            a2: A2,
+            a3: A3,
+            a4: A4,
+            a5: A5,
+            a6: A6,
+            a7: A7,
+            a8: A8
+        ) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<
+        (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7, a8: A8) => CancellablePromise<any>
+    >
+    <A1, A2, A3, A4, A5, A6, A7>(
+        generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<
+        (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6, a7: A7) => CancellablePromise<any>
+    >
+    <A1, A2, A3, A4, A5, A6>(
+        generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<(a1: A1, a2: A2, a3: A3, a4: A4, a5: A5, a6: A6) => CancellablePromise<any>>
+    <A1, A2, A3, A4, A5>(
+        generator: (a1: A1, a2: A2, a3: A3, a4: A4, a5: A5) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<(a1: A1, a2: A2, a3: A3, a4: A4, a5: A5) => CancellablePromise<any>>
+    <A1, A2, A3, A4>(
+        generator: (a1: A1, a2: A2, a3: A3, a4: A4) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<(a1: A1, a2: A2, a3: A3, a4: A4) => CancellablePromise<any>>
+    <A1, A2, A3>(
+        generator: (a1: A1, a2: A2, a3: A3) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<(a1: A1, a2: A2, a3: A3) => CancellablePromise<any>>
+    <A1, A2>(
+        generator: (a1: A1, a2: A2) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): IFlowFunction<(a1: A1, a2: A2) => CancellablePromise<any>>
+    <A1>(generator: (a1: A1) => IterableIterator<any>, options?: IFlowOptions): IFlowFunction<
+        (a1: A1) => CancellablePromise<any>
+    >
+
+    // flows that expose the observable state of their latest run
+    tracked<R>(
+        generator: () => IterableIterator<any>,
+        options?: IFlowOptions
+    ): ITrackedFlowFunction<() => CancellablePromise<R>, R>
+    tracked<A1>(
+        generator: (a1: A1) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): ITrackedFlowFunction<(a1: A1) => CancellablePromise<any>>
+    tracked<A1, A2>(
+        generator: (a1: A1, a2: A2) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): ITrackedFlowFunction<(a1: A1, a2: A2) => CancellablePromise<any>>
+    tracked<A1, A2, A3>(
+        generator: (a1: A1, a2: A2, a3: A3) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): ITrackedFlowFunction<(a1: A1, a2: A2, a3: A3) => CancellablePromise<any>>
+    tracked(
+        generator: (...args: any[]) => IterableIterator<any>,
+        options?: IFlowOptions
+    ): ITrackedFlowFunction<(...args: any[]) => CancellablePromise<any>>
+}
+
+export var flow: IFlowFactory = function flow(generator: Function, options: IFlowOptions = {}) {
+    if (arguments.length > 2 || typeof generator !== "function")
+        fail(
+            process.env.NODE_ENV !== "production" &&
+                `Flow expects a generator function and optionally an options object, and cannot be used as decorator`
+        )
     const name = generator.name || "<unnamed flow>"
+    const invoke = createInvoker(name, generator, options.concurrency || "every")
+    const res: any = function() {
+        return invoke(this, arguments, undefined)
+    }
+    res.withSignal = function(signal: IAbortSignal) {
+        return function() {
+            return invoke(this, arguments, signal)
+        }
+    }
+    return res
+} as any
 
-    // Implementation based on https://github.com/tj/co/blob/master/index.js
-    return function() {
-        const ctx = this
-        const args = arguments
-        const runId = ++generatorId
-        const gen = action(`${name} - runid: ${runId} - init`, generator).apply(ctx, args)
-        let rejector: (error: any) => void
-        let pendingPromise: CancellablePromise<any> | undefined = undefined
-
-        const res = new Promise(function(resolve, reject) {
-            let stepId = 0
-            rejector = reject
-
-            function onFulfilled(res: any) {
-                pendingPromise = undefined
-                let ret
-                try {
-                    ret = action(`${name} - runid: ${runId} - yield ${stepId++}`, gen.next).call(
-                        gen,
-                        res
-                    )
-                } catch (e) {
-                    return reject(e)
-                }
+flow.tracked = function tracked(generator: Function, options?: IFlowOptions): any {
+    const run: IFlowFunction<Function> = (flow as any)(generator, options)
+    const name = generator.name || "<unnamed flow>"
+    const status = observable(
+        { state: "idle", value: undefined, error: undefined, runCount: 0 },
+        { value: observable.ref, error: observable.ref },
+        { name: `${name}.status` }
+    )
+    let latestRun: CancellablePromise<any> | undefined = undefined
 
-                next(ret)
+    function track(promise: CancellablePromise<any>) {
+        // with concurrency "exhaust", the pending run is returned when the call is ignored
+        if (promise === latestRun) return promise
+        latestRun = promise
+        executeAction(`${name} - pending`, () => {
+            status.state = "pending"
+            status.runCount++
+        })
+        promise.then(
+            value => {
+                if (promise === latestRun)
+                    executeAction(`${name} - fulfilled`, () => {
+                        status.state = "fulfilled"
+                        status.value = value
+                        status.error = undefined
+                    })
+            },
+            error => {
+                if (promise === latestRun)
+                    executeAction(`${name} - rejected`, () => {
+                        status.state = "rejected"
+                        status.error = error
+                    })
             }
+        )
+        return promise
+    }
+
+    const res: any = function() {
+        return track(run.apply(this, arguments))
+    }
+    res.withSignal = function(signal: IAbortSignal) {
+        const runWithSignal = run.withSignal(signal)
+        return function() {
+            return track(runWithSignal.apply(this, arguments))
+        }
+    }
+    ;["state", "value", "error", "runCount"].forEach(key =>
+        Object.defineProperty(res, key, {
+            get: () => status[key],
+            enumerable: true,
+            configurable: true
+        })
+    )
+    return res
+} as any
+
+/**
+ * Returns the abort signal of the flow that is currently running, or `undefined` if called outside a flow.
+ * Should be called synchronously in the generator, for example: `yield fetch(url, { signal: getFlowSignal() })`.
+ * The signal is aborted when the flow is cancelled.
+ * (Only available if `AbortController` is supported by the environment, or if the flow was started with `withSignal`)
+ */
+export function getFlowSignal(): IAbortSignal | undefined {
+    return currentFlowSignal
+}
+
+type IFlowInvoker = (
+    ctx: any,
+    args: IArguments,
+    signal: IAbortSignal | undefined
+) => CancellablePromise<any>
 
-            function onRejected(err: any) {
-                pendingPromise = undefined
-                let ret
-                try {
-                    ret = action(`${name} - runid: ${runId} - yield ${stepId++}`, gen.throw).call(
-                        gen,
-                        err
-                    )
-                } catch (e) {
-                    return reject(e)
+function createInvoker(
+    name: string,
+    generator: Function,
+    concurrency: FlowConcurrency
+): IFlowInvoker {
+    switch (concurrency) {
+        case "every":
+            return (ctx, args, signal) => runFlow(name, generator, ctx, args, signal)
+        case "latest":
+        case "exhaust": {
+            let pending: CancellablePromise<any> | undefined = undefined
+            return (ctx, args, signal) => {
+                if (pending) {
+                    if (concurrency === "exhaust") return pending
+                    pending.cancel()
                 }
-                next(ret)
+                const res = runFlow(name, generator, ctx, args, signal)
+                const settled = () => {
+                    if (pending === res) pending = undefined
+                }
+                res.then(settled, settled)
+                return (pending = res)
             }
-
-            function next(ret: any) {
-                if (ret && typeof ret.then === "function") {
-                    // an async iterator
-                    ret.then(next, reject)
-                    return
+        }
+        case "queue": {
+            let lastRun: Promise<any> = Promise.resolve()
+            return (ctx, args, signal) => {
+                let run: CancellablePromise<any> | undefined = undefined
+                let cancelled = false
+                let rejector: (error: any) => void
+                const res = new Promise(function(resolve, reject) {
+                    rejector = reject
+                    lastRun = lastRun
+                        .then(function() {
+                            if (cancelled) return
+                            try {
+                                run = runFlow(name, generator, ctx, args, signal)
+                            } catch (e) {
+                                // for example a middleware that vetoed the start of the run
+                                return reject(e)
+                            }
+                            run.then(resolve, reject)
+                            return run.then(noop, noop)
+                        })
+                        .then(noop, noop)
+                }) as any
+                res.cancel = function() {
+                    if (run) return run.cancel()
+                    // not started yet, make sure it never starts
+                    cancelled = true
+                    rejector(new Error("FLOW_CANCELLED"))
+                }
+                // once started, the run itself listens to the signal
+                if (signal) {
+                    const removeAbortListener = onAbort(signal, () => run || res.cancel())
+                    res.then(removeAbortListener, removeAbortListener)
                 }
-                if (ret.done) return resolve(ret.value)
-                pendingPromise = Promise.resolve(ret.value) as any
-                return pendingPromise!.then(onFulfilled, onRejected)
+                return res
             }
+        }
+        default:
+            return fail(
+                process.env.NODE_ENV !== "production" &&
+                    `Invalid flow concurrency '${concurrency}', expected 'every', 'latest', 'exhaust' or 'queue'`
+            )
+    }
+}
+
+function runFlow(
+    name: string,
+    generator: Function,
+    ctx: any,
+    args: IArguments,
+    externalSignal: IAbortSignal | undefined
+): CancellablePromise<any> {
+    // Implementation based on https://github.com/tj/co/blob/master/index.js
+    const runId = ++generatorId
+    if (externalSignal && externalSignal.aborted) {
+        const aborted = Promise.reject(new Error("FLOW_CANCELLED")) as any
+        aborted.cancel = noop
+        return aborted
+    }
+    // every run gets its own signal, which is aborted when the run is cancelled
+    const AbortControllerImpl = getGlobal().AbortController
+    const controller =
+        typeof AbortControllerImpl === "function" ? new AbortControllerImpl() : undefined
+    const signal: IAbortSignal | undefined = controller ? controller.signal : externalSignal
+    const gen = runStep(signal, () =>
+        action(`${name} - runid: ${runId} - init`, generator).apply(ctx, args)
+    )
+    let rejector: (error: any) => void
+    let pendingPromise: CancellablePromise<any> | undefined = undefined
 
-            onFulfilled(undefined) // kick off the process
-        }) as any
+    const res = new Promise(function(resolve, reject) {
+        let stepId = 0
+        rejector = reject
 
-        res.cancel = action(`${name} - runid: ${runId} - cancel`, function() {
+        function onFulfilled(res: any) {
+            pendingPromise = undefined
+            let ret
             try {
-                if (pendingPromise) cancelPromise(pendingPromise)
-                // Finally block can return (or yield) stuff..
-                const res = gen.return()
-                // eat anything that promise would do, it's cancelled!
-                const yieldedPromise = Promise.resolve(res.value)
-                yieldedPromise.then(noop, noop)
-                cancelPromise(yieldedPromise) // maybe it can be cancelled :)
-                // reject our original promise
-                rejector(new Error("FLOW_CANCELLED"))
+                ret = runStep(signal, () =>
+                    action(`${name} - runid: ${runId} - yield ${stepId++}`, gen.next).call(gen, res)
+                )
             } catch (e) {
-                rejector(e) // there could be a throwing finally block
+                return reject(e)
             }
-        })
-        return res
+
+            next(ret)
+        }
+
+        function onRejected(err: any) {
+            pendingPromise = undefined
+            let ret
+            try {
+                ret = runStep(signal, () =>
+                    action(`${name} - runid: ${runId} - yield ${stepId++}`, gen.throw).call(gen, err)
+                )
+            } catch (e) {
+                return reject(e)
+            }
+            next(ret)
+        }
+
+        function next(ret: any) {
+            if (ret && typeof ret.then === "function") {
+                // an async iterator
+                ret.then(next, reject)
+                return
+            }
+            if (ret.done) return resolve(ret.value)
+            pendingPromise = Promise.resolve(ret.value) as any
+            return pendingPromise!.then(onFulfilled, onRejected)
+        }
+
+        onFulfilled(undefined) // kick off the process
+    }) as any
+
+    res.cancel = action(`${name} - runid: ${runId} - cancel`, function() {
+        if (controller && !controller.signal.aborted) controller.abort()
+        try {
+            if (pendingPromise) cancelPromise(pendingPromise)
+            // Finally block can return (or yield) stuff..
+            const res = gen.return()
+            // eat anything that promise would do, it's cancelled!
+            const yieldedPromise = Promise.resolve(res.value)
+            yieldedPromise.then(noop, noop)
+            cancelPromise(yieldedPromise) // maybe it can be cancelled :)
+            // reject our original promise
+            rejector(new Error("FLOW_CANCELLED"))
+        } catch (e) {
+            rejector(e) // there could be a throwing finally block
+        }
+    })
+    if (externalSignal) {
+        const removeAbortListener = onAbort(externalSignal, res.cancel)
+        res.then(removeAbortListener, removeAbortListener)
     }
+    return res
+}
+
+let currentFlowSignal: IAbortSignal | undefined = undefined
+
+function runStep<T>(signal: IAbortSignal | undefined, fn: () => T): T {
+    const prevSignal = currentFlowSignal
+    currentFlowSignal = signal
+    try {
+        return fn()
+    } finally {
+        currentFlowSignal = prevSignal
+    }
+}
+
+function onAbort(signal: IAbortSignal, listener: () => void): Lambda {
+    signal.addEventListener("abort", listener)
+    return () => signal.removeEventListener("abort", listener)
 }
 
 function cancelPromise(promise) {
@@ -1,6 +1,7 @@
 import { IInterceptor } from "../types/intercept-utils"
 import { IObservableArray, IArrayWillChange, IArrayWillSplice } from "../types/observablearray"
 import { ObservableMap, IMapWillChange } from "../types/observablemap"
+import { ObservableSet, ISetWillChange } from "../types/observableset"
 import { IObjectWillChange } from "../types/observableobject"
 import { IValueWillChange, IObservableValue } from "../types/observablevalue"
 import { Lambda } from "../utils/utils"
@@ -18,6 +19,10 @@ export function intercept<K, V>(
     observableMap: ObservableMap<K, V>,
     handler: IInterceptor<IMapWillChange<K, V>>
 ): Lambda
+export function intercept<T>(
+    observableSet: ObservableSet<T>,
+    handler: IInterceptor<ISetWillChange<T>>
+): Lambda
 export function intercept<K, V>(
     observableMap: ObservableMap<K, V>,
     property: K,
@@ -1,5 +1,6 @@
 import { isObservableArray } from "../types/observablearray"
 import { isObservableMap } from "../types/observablemap"
+import { isObservableSet } from "../types/observableset"
 import { isObservableObject, ObservableObjectAdministration } from "../types/observableobject"
 import { isAtom } from "../core/atom"
 import { isComputedValue } from "../core/computedvalue"
@@ -11,10 +12,10 @@ function _isObservable(value, property?: string): boolean {
     if (property !== undefined) {
         if (
             process.env.NODE_ENV !== "production" &&
-            (isObservableMap(value) || isObservableArray(value))
+            (isObservableMap(value) || isObservableArray(value) || isObservableSet(value))
         )
             return fail(
-                "isObservable(object, propertyName) is not supported for arrays and maps. Use map.has or array.length instead."
+                "isObservable(object, propertyName) is not supported for arrays, maps and sets. Use map.has, set.has or array.length instead."
             )
         if (isObservableObject(value)) {
             const o = <ObservableObjectAdministration>(value as any).$mobx
@@ -0,0 +1,57 @@
+import { Reaction, getLiveReactions } from "../core/reaction"
+import { now } from "../utils/utils"
+
+export interface IActiveReaction {
+    name: string
+    reaction: Reaction
+    /**
+     * Time in milliseconds since the reaction was created,
+     * or since its first run if it was created before `trackReactions` was enabled
+     */
+    age: number
+    /**
+     * The stack trace of the creation of the reaction.
+     * Only available in development builds, for reactions created while `trackReactions` is enabled
+     */
+    creationStack: string | undefined
+}
+
+export interface IReportLeaksOptions {
+    /**
+     * Only report reactions that were created at least this many milliseconds ago. Defaults to 0
+     */
+    olderThan?: number
+}
+
+/**
+ * Returns all reactions, like autoruns and `reaction`s, that have run at least once and are not disposed yet.
+ * Requires `configure({ trackReactions: true })`, only reactions that ran since then are returned
+ */
+export function getActiveReactions(): IActiveReaction[] {
+    const currentTime = now()
+    return getLiveReactions().map(reaction => ({
+        name: reaction.name,
+        reaction,
+        age: currentTime - reaction.createdAt,
+        creationStack: reaction.creationStack
+    }))
+}
+
+/**
+ * Warns about, and returns, the reactions that are still active.
+ * Use `olderThan` to ignore reactions that were created recently, for example by the test that is currently running.
+ */
+export function reportLeaks(options: IReportLeaksOptions = {}): IActiveReaction[] {
+    const olderThan = options.olderThan || 0
+    const leaks = getActiveReactions().filter(entry => entry.age >= olderThan)
+    if (leaks.length > 0)
+        console.warn(
+            `[mobx] ${leaks.length} reaction(s) have not been disposed:\n` +
+                leaks.map(formatLeak).join("\n")
+        )
+    return leaks
+}
+
+function formatLeak(leak: IActiveReaction) {
+    return leak.creationStack ? `- ${leak.name}\n${leak.creationStack}` : `- ${leak.name}`
+}
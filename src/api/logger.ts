@@ -0,0 +1,135 @@
+import { spy, SpyEvent } from "../core/spy"
+import { getDebugName } from "../types/type-utils"
+import { Lambda, fail } from "../utils/utils"
+import { isObservable } from "./isobservable"
+
+export type LoggedEventType = SpyEvent["type"]
+
+export interface ILogSink {
+    write(line: string): void
+}
+
+export interface ILoggerOptions {
+    /**
+     * Only log events of these types. Defaults to all types
+     */
+    types?: LoggedEventType[]
+    /**
+     * Only log events for actions, observables and derivations whose name matches.
+     * For changes, the changed key or index is part of the name, for example `store.todos[0]` or `store.title`.
+     * Strings match if they are part of the name
+     */
+    name?: string | RegExp
+    /**
+     * Where to write the log lines to: the console (default), an array,
+     * or any object with a `write` method, like a node stream
+     */
+    sink?: "console" | string[] | ILogSink
+    /**
+     * Used to indent events that happened as a result of another event. Defaults to two spaces
+     */
+    indent?: string
+}
+
+/**
+ * Logs actions, state changes, reactions and computations, based on `spy`.
+ * Events that are caused by another event, like the changes made by an action,
+ * are indented below that event.
+ * Returns a function that stops the logger.
+ */
+export function createLogger(options: ILoggerOptions = {}): Lambda {
+    const write = createSink(options.sink || "console")
+    const indent = options.indent === undefined ? "  " : options.indent
+    const types = options.types
+    const name = options.name
+    // for every started event: was it logged?
+    const started: boolean[] = []
+    let depth = 0
+
+    function shouldLog(event: SpyEvent) {
+        if (types && types.indexOf(event.type) === -1) return false
+        if (name === undefined || event.type === "report-end") return true
+        const target = formatTarget(event.name, (event as any).key, (event as any).index)
+        return typeof name === "string" ? target.indexOf(name) !== -1 : name.test(target)
+    }
+
+    return spy(event => {
+        if (event.type === "report-end") {
+            if (started.pop()) depth--
+            return
+        }
+        const log = shouldLog(event)
+        if (log) write(repeat(indent, depth) + formatEvent(event))
+        if ((event as any).spyReportStart) {
+            started.push(log)
+            if (log) depth++
+        }
+    })
+}
+
+function createSink(sink: "console" | string[] | ILogSink): (line: string) => void {
+    if (sink === "console") return line => console.log(line)
+    if (Array.isArray(sink)) return line => sink.push(line)
+    if (sink && typeof sink.write === "function") return line => sink.write(line + "\n")
+    return fail(
+        process.env.NODE_ENV !== "production" &&
+            `[mobx.createLogger] Invalid sink, expected 'console', an array or an object with a 'write' method`
+    )
+}
+
+function formatEvent(event: SpyEvent): string {
+    switch (event.type) {
+        case "action":
+            return `[action] ${event.name}(${event.arguments.map(formatValue).join(", ")})`
+        case "update": {
+            const target = formatTarget(event.name, event.key, event.index)
+            const oldValue = formatValue(event.oldValue)
+            return `[update] ${target}: ${oldValue} -> ${formatValue(event.newValue)}`
+        }
+        case "add":
+            return `[add] ${formatTarget(event.name, event.key)}: ${formatValue(event.newValue)}`
+        case "remove":
+        case "delete": {
+            const target = formatTarget(event.name, event.key)
+            return `[${event.type}] ${target}: ${formatValue(event.oldValue)}`
+        }
+        case "splice": {
+            const target = formatTarget(event.name, undefined, event.index)
+            const removed = formatValues(event.removed)
+            return `[splice] ${target}: removed ${removed}, added ${formatValues(event.added)}`
+        }
+        case "create":
+            return `[create] ${event.name}: ${formatValue(event.newValue)}`
+        case "error":
+            return `[error] ${event.name}: ${event.error}`
+        case "report-end":
+            return ""
+        default:
+            return `[${event.type}] ${event.name}`
+    }
+}
+
+function formatTarget(name: string, key?: any, index?: number) {
+    if (index !== undefined) return `${name}[${index}]`
+    if (key !== undefined) return `${name}.${key}`
+    return name
+}
+
+function formatValues(values: any[]) {
+    return `[${values.map(formatValue).join(", ")}]`
+}
+
+export function formatValue(value: any): string {
+    if (typeof value === "string") return JSON.stringify(value)
+    if (typeof value === "function") return `[function ${value.name || "anonymous"}]`
+    if (value === null || typeof value !== "object") return String(value)
+    if (isObservable(value)) return getDebugName(value)
+    if (Array.isArray(value)) return `Array(${value.length})`
+    return "Object"
+}
+
+function repeat(str: string, times: number) {
+    let res = ""
+    for (let i = 0; i < times; i++) res += str
+    return res
+}
@@ -1,4 +1,5 @@
 import { isObservableMap, ObservableMap } from "../types/observablemap"
+import { isObservableSet, ObservableSet } from "../types/observableset"
 import {
     isObservableObject,
     IIsObservableObject,
@@ -6,7 +7,7 @@ import {
     ObservableObjectAdministration
 } from "../types/observableobject"
 import { isObservableArray, IObservableArray } from "../types/observablearray"
-import { fail, invariant } from "../utils/utils"
+import { fail, invariant, iteratorToArray } from "../utils/utils"
 import { startBatch, endBatch } from "../core/observable"
 import { getAdministration } from "../types/type-utils"
 import { ObservableValue } from "../types/observablevalue"
@@ -28,6 +29,7 @@ export function keys(obj: any): any {
 
 export function values<K, T>(map: ObservableMap<K, T>): ReadonlyArray<T>
 export function values<T>(ar: IObservableArray<T>): ReadonlyArray<T>
+export function values<T>(set: ObservableSet<T>): ReadonlyArray<T>
 export function values<T = any>(obj: T): ReadonlyArray<any>
 export function values(obj: any): string[] {
     if (isObservableObject(obj)) {
@@ -39,9 +41,12 @@ export function values(obj: any): string[] {
     if (isObservableArray(obj)) {
         return obj.slice()
     }
+    if (isObservableSet(obj)) {
+        return iteratorToArray(obj.values()) as any[]
+    }
     return fail(
         process.env.NODE_ENV !== "production" &&
-            "'values()' can only be used on observable objects, arrays and maps"
+            "'values()' can only be used on observable objects, arrays, maps and sets"
     )
 }
 
@@ -88,6 +93,7 @@ export function set(obj: any, key: any, value?: any): void {
 
 export function remove<K, V>(obj: ObservableMap<K, V>, key: K)
 export function remove<T>(obj: IObservableArray<T>, index: number)
+export function remove<T>(obj: ObservableSet<T>, value: T)
 export function remove<T extends Object>(obj: T, key: string)
 export function remove(obj: any, key: any): void {
     if (isObservableObject(obj)) {
@@ -98,16 +104,19 @@ export function remove(obj: any, key: any): void {
         if (typeof key !== "number") key = parseInt(key, 10)
         invariant(key >= 0, `Not a valid index: '${key}'`)
         obj.splice(key, 1)
+    } else if (isObservableSet(obj)) {
+        obj.delete(key)
     } else {
         return fail(
             process.env.NODE_ENV !== "production" &&
-                "'remove()' can only be used on observable objects, arrays and maps"
+                "'remove()' can only be used on observable objects, arrays, maps and sets"
         )
     }
 }
 
 export function has<K>(obj: ObservableMap<K, any>, key: K): boolean
 export function has<T>(obj: IObservableArray<T>, index: number): boolean
+export function has<T>(obj: ObservableSet<T>, value: T): boolean
 export function has<T extends Object>(obj: T, key: string): boolean
 export function has(obj: any, key: any): boolean {
     if (isObservableObject(obj)) {
@@ -119,10 +128,12 @@ export function has(obj: any, key: any): boolean {
         return obj.has(key)
     } else if (isObservableArray(obj)) {
         return key >= 0 && key < obj.length
+    } else if (isObservableSet(obj)) {
+        return obj.has(key)
     } else {
         return fail(
             process.env.NODE_ENV !== "production" &&
-                "'has()' can only be used on observable objects, arrays and maps"
+                "'has()' can only be used on observable objects, arrays, maps and sets"
         )
     }
 }
@@ -1,4 +1,4 @@
-import { fail, deprecated, isES6Map, isPlainObject } from "../utils/utils"
+import { fail, deprecated, isES6Map, isES6Set, isPlainObject } from "../utils/utils"
 import {
     deepEnhancer,
     referenceEnhancer,
@@ -13,6 +13,7 @@ import { isObservable } from "./isobservable"
 import { IObservableObject } from "../types/observableobject"
 import { extendObservable } from "./extendobservable"
 import { IObservableMapInitialValues, ObservableMap } from "../types/observablemap"
+import { IObservableSetInitialValues, ObservableSet } from "../types/observableset"
 
 export type CreateObservableOptions = {
     name?: string
@@ -85,6 +86,8 @@ function createObservable(v: any, arg2?: any, arg3?: any) {
         ? observable.array(v, arg2)
         : isES6Map(v)
         ? observable.map(v, arg2)
+        : isES6Set(v)
+        ? observable.set(v, arg2)
         : v
 
     // this value could be converted to a new observable data structure, return it
@@ -103,6 +106,7 @@ export interface IObservableFactory {
     (target: Object, key: string | symbol, baseDescriptor?: PropertyDescriptor): any // decorator
     <T = any>(value: T[], options?: CreateObservableOptions): IObservableArray<T>
     <K = any, V = any>(value: Map<K, V>, options?: CreateObservableOptions): ObservableMap<K, V>
+    <T = any>(value: Set<T>, options?: CreateObservableOptions): ObservableSet<T>
     <T extends Object>(
         value: T,
         decorators?: { [K in keyof T]?: Function },
@@ -126,6 +130,10 @@ export interface IObservableFactories {
         initialValues?: IObservableMapInitialValues<K, V>,
         options?: CreateObservableOptions
     ): ObservableMap<K, V>
+    set<T = any>(
+        initialValues?: IObservableSetInitialValues<T>,
+        options?: CreateObservableOptions
+    ): ObservableSet<T>
     object<T = any>(
         props: T,
         decorators?: { [K in keyof T]?: Function },
@@ -186,6 +194,14 @@ const observableFactories: IObservableFactories = {
         deprecated(`observable.shallowMap`, `observable.map(values, { deep: false })`)
         return observable.map(initialValues, { name, deep: false })
     },
+    set<T = any>(
+        initialValues?: IObservableSetInitialValues<T>,
+        options?: CreateObservableOptions
+    ): ObservableSet<T> {
+        if (arguments.length > 2) incorrectlyUsedAsDecorator("set")
+        const o = asCreateObservableOptions(options)
+        return new ObservableSet<T>(initialValues, getEnhancerFromOptions(o), o.name)
+    },
     // 等价于 observable.object, object 函数接收三个参数，
     // 第三个参数为 options 可以定制化劫持方式
     // 一般情况传入的只有props === 之前createObservable的v
@@ -1,5 +1,6 @@
 import { IObservableArray, IArrayChange, IArraySplice } from "../types/observablearray"
 import { ObservableMap, IMapDidChange } from "../types/observablemap"
+import { ObservableSet, ISetDidChange } from "../types/observableset"
 import { IObjectDidChange } from "../types/observableobject"
 import { IComputedValue } from "../core/computedvalue"
 
@@ -22,6 +23,11 @@ export function observe<K, V>(
     listener: (change: IMapDidChange<K, V>) => void,
     fireImmediately?: boolean
 ): Lambda
+export function observe<T>(
+    observableSet: ObservableSet<T>,
+    listener: (change: ISetDidChange<T>) => void,
+    fireImmediately?: boolean
+): Lambda
 export function observe<K, V>(
     observableMap: ObservableMap<K, V>,
     property: K,
@@ -0,0 +1,134 @@
+import { executeAction } from "../core/action"
+import { ObservableValue } from "../types/observablevalue"
+import { referenceEnhancer } from "../types/modifiers"
+import {
+    IChangeRecorder,
+    startRecordingChanges,
+    endRecordingChanges,
+    revertChanges,
+    isRecordingChanges,
+    recordChange
+} from "../types/record-utils"
+import { fail, invariant, getNextId } from "../utils/utils"
+import { CancellablePromise } from "./flow"
+
+export type OptimisticUpdateState = "pending" | "committed" | "reverted"
+
+export interface IOptimisticUpdate<T> {
+    readonly name: string
+    /**
+     * The value returned by the function passed to `optimistic`
+     */
+    readonly result: T
+    /**
+     * Observable state of the update
+     */
+    readonly state: OptimisticUpdateState
+    commit(): void
+    revert(): void
+    /**
+     * Commits the update when the promise resolves, reverts it when the promise rejects.
+     * Cancelling the returned promise (for example by cancelling the flow that yields it) reverts the update as well.
+     */
+    settleWith<R>(promise: PromiseLike<R>): CancellablePromise<R>
+}
+
+/**
+ * Runs `fn` as action, and records all changes it makes to observable objects, arrays, maps and boxes.
+ * The changes are applied immediately, but can be rolled back later by calling `revert()` on the returned handle,
+ * for example when the server rejected them. If `fn` throws, its changes are reverted immediately.
+ *
+ * Note that reverting restores the old values, including those of properties that were changed again
+ * after the optimistic update was applied. Changes to arrays are reverted by position,
+ * so if an array was changed at those positions since, `revert()` throws without reverting anything.
+ */
+export function optimistic<T>(fn: () => T): IOptimisticUpdate<T>
+export function optimistic<T>(name: string, fn: () => T): IOptimisticUpdate<T>
+export function optimistic(arg1, arg2?) {
+    const name = typeof arg1 === "string" ? arg1 : arg1.name || "Optimistic@" + getNextId()
+    const fn = typeof arg1 === "function" ? arg1 : arg2
+    if (process.env.NODE_ENV !== "production")
+        invariant(typeof fn === "function", "`optimistic` expects a function")
+    return new OptimisticUpdate(name, fn)
+}
+
+class OptimisticUpdate<T> implements IOptimisticUpdate<T> {
+    result: T
+    private recorder: IChangeRecorder
+    private _state: ObservableValue<OptimisticUpdateState>
+
+    constructor(public name: string, fn: () => T) {
+        this._state = new ObservableValue<OptimisticUpdateState>(
+            "pending",
+            referenceEnhancer,
+            `${name}.state`
+        )
+        executeAction(name, () => {
+            const recorder = startRecordingChanges()
+            let succeeded = false
+            try {
+                this.result = fn()
+                succeeded = true
+            } finally {
+                // the changes are owned by this update, an enclosing atomic action only reverts them
+                // (and the update) if it fails
+                endRecordingChanges(recorder, false)
+                if (!succeeded) revertChanges(recorder)
+            }
+            this.recorder = recorder
+            if (isRecordingChanges())
+                recordChange(() => {
+                    if (this._state.get() !== "reverted") revertChanges(recorder)
+                    this._state.setNewValue("reverted")
+                })
+        })
+    }
+
+    get state() {
+        return this._state.get()
+    }
+
+    commit() {
+        this.assertPending("commit")
+        executeAction(`${this.name}.commit`, () => {
+            this.recorder = []
+            this._state.set("committed")
+        })
+    }
+
+    revert() {
+        this.assertPending("revert")
+        executeAction(`${this.name}.revert`, () => {
+            revertChanges(this.recorder)
+            this.recorder = []
+            this._state.set("reverted")
+        })
+    }
+
+    settleWith<R>(promise: PromiseLike<R>): CancellablePromise<R> {
+        const res = Promise.resolve(promise).then(
+            value => {
+                if (this._state.get() === "pending") this.commit()
+                return value
+            },
+            error => {
+                if (this._state.get() === "pending") this.revert()
+                throw error
+            }
+        ) as CancellablePromise<R>
+        res.cancel = () => {
+            if (this._state.get() === "pending") this.revert()
+            if (typeof (promise as any).cancel === "function") (promise as any).cancel()
+        }
+        return res
+    }
+
+    private assertPending(operation: string) {
+        const state = this._state.get()
+        if (state !== "pending")
+            fail(
+                process.env.NODE_ENV !== "production" &&
+                    `[${this.name}] Cannot ${operation}, the update has already been ${state}`
+            )
+    }
+}
@@ -0,0 +1,166 @@
+import { isObservableArray } from "../types/observablearray"
+import { isObservableMap } from "../types/observablemap"
+import { isObservableObject } from "../types/observableobject"
+import { executeAction } from "../core/action"
+import { Lambda, fail } from "../utils/utils"
+import { set, remove } from "./object-api"
+import { toJS } from "./tojs"
+import { deepObserve, IDeepChange, joinJsonPath } from "./deepobserve"
+
+export interface IJsonPatch {
+    op: "replace" | "add" | "remove"
+    path: string
+    value?: any
+}
+
+/**
+ * Returns a plain, serializable copy of an observable object, array or map.
+ * Maps are exported as objects, so that the snapshot can be addressed by json patches.
+ */
+export function getSnapshot<T = any>(node: T): any {
+    return toJS(node, { detectCycles: true, exportMapsAsObjects: true })
+}
+
+/**
+ * Subscribes to all changes in the tree of observable objects, arrays and maps under `node`,
+ * and reports them as RFC 6902 json patches, with paths relative to `node`.
+ * For each patch, the patch that reverts it is passed as second argument.
+ *
+ * Every observable is expected to appear only once in the tree.
+ */
+export function onPatch(
+    node: any,
+    listener: (patch: IJsonPatch, reversePatch: IJsonPatch) => void
+): Lambda {
+    return deepObserve(node, (change, path) => {
+        const patches = changeToPatches(change, path)
+        for (let i = 0; i < patches.length; i++) listener(patches[i][0], patches[i][1])
+    })
+}
+
+/**
+ * Applies one or more json patches to the tree of observables under `node`.
+ * All patches are applied in a single action.
+ */
+export function applyPatch(node: any, patch: IJsonPatch | IJsonPatch[]) {
+    const patches = Array.isArray(patch) ? patch : [patch]
+    executeAction(
+        "applyPatch",
+        () => {
+            for (let i = 0; i < patches.length; i++) applySinglePatch(node, patches[i])
+        },
+        undefined,
+        undefined
+    )
+}
+
+function applySinglePatch(node: any, patch: IJsonPatch) {
+    const parts = splitJsonPath(patch.path)
+    if (parts.length === 0)
+        fail(
+            process.env.NODE_ENV !== "production" &&
+                `[applyPatch] It is not possible to replace the root of a tree with a patch`
+        )
+    const key = parts.pop()!
+    const target = resolvePath(node, parts, patch.path)
+    if (isObservableArray(target)) {
+        const index = key === "-" ? target.length : parseInt(key, 10)
+        switch (patch.op) {
+            case "add":
+                target.splice(index, 0, patch.value)
+                break
+            case "replace":
+                target[index] = patch.value
+                break
+            case "remove":
+                target.splice(index, 1)
+                break
+        }
+    } else if (isObservableMap(target)) {
+        if (patch.op === "remove") target.delete(key)
+        else target.set(key, patch.value)
+    } else if (isObservableObject(target)) {
+        if (patch.op === "remove") remove(target, key)
+        else set(target, key, patch.value)
+    } else {
+        fail(
+            process.env.NODE_ENV !== "production" &&
+                `[applyPatch] Cannot apply patch '${patch.path}', the parent is not an observable object, array or map`
+        )
+    }
+}
+
+function resolvePath(node: any, parts: string[], path: string) {
+    let current = node
+    for (let i = 0; i < parts.length; i++) {
+        if (isObservableMap(current)) current = current.get(parts[i])
+        else if (isObservableArray(current)) current = current[parseInt(parts[i], 10)]
+        else if (isObservableObject(current)) current = current[parts[i]]
+        else
+            return fail(
+                process.env.NODE_ENV !== "production" &&
+                    `[applyPatch] Cannot resolve path '${path}'`
+            )
+    }
+    return current
+}
+
+function changeToPatches(change: IDeepChange, path: string): [IJsonPatch, IJsonPatch][] {
+    switch (change.type) {
+        case "add": {
+            const childPath = joinJsonPath(path, change.name)
+            return [
+                [
+                    { op: "add", path: childPath, value: getSnapshot(change.newValue) },
+                    { op: "remove", path: childPath }
+                ]
+            ]
+        }
+        case "update": {
+            const childPath = joinJsonPath(
+                path,
+                "index" in change ? change.index : (change as any).name
+            )
+            return [
+                [
+                    { op: "replace", path: childPath, value: getSnapshot(change.newValue) },
+                    { op: "replace", path: childPath, value: getSnapshot(change.oldValue) }
+                ]
+            ]
+        }
+        case "remove":
+        case "delete": {
+            const childPath = joinJsonPath(path, change.name)
+            return [
+                [
+                    { op: "remove", path: childPath },
+                    { op: "add", path: childPath, value: getSnapshot(change.oldValue) }
+                ]
+            ]
+        }
+        case "splice": {
+            const res: [IJsonPatch, IJsonPatch][] = []
+            const removedPath = joinJsonPath(path, change.index)
+            for (let i = 0; i < change.removedCount; i++)
+                res.push([
+                    { op: "remove", path: removedPath },
+                    { op: "add", path: removedPath, value: getSnapshot(change.removed[i]) }
+                ])
+            for (let i = 0; i < change.addedCount; i++) {
+                const addedPath = joinJsonPath(path, change.index + i)
+                res.push([
+                    { op: "add", path: addedPath, value: getSnapshot(change.added[i]) },
+                    { op: "remove", path: addedPath }
+                ])
+            }
+            return res
+        }
+    }
+    return fail("Unknown change type: " + (change as any).type)
+}
+
+function splitJsonPath(path: string): string[] {
+    if (path === "") return []
+    if (path[0] !== "/") fail(`[applyPatch] Not a valid json path: '${path}'`)
+    return path.substr(1).split("/").map(part => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
@@ -0,0 +1,150 @@
+import { spy, SpyEvent } from "../core/spy"
+import { Lambda, fail, now } from "../utils/utils"
+
+export type ProfiledEventType = "action" | "reaction" | "compute"
+
+export interface IProfileEntry {
+    name: string
+    type: ProfiledEventType
+    /**
+     * Number of times the action, reaction or computation ran
+     */
+    count: number
+    /**
+     * Total time in milliseconds, including the time spent in nested actions, reactions and computations
+     */
+    totalTime: number
+    /**
+     * Total time in milliseconds, excluding the time spent in nested actions, reactions and computations
+     */
+    selfTime: number
+}
+
+export interface IChromeTraceEvent {
+    name: string
+    cat: string
+    ph: "X"
+    /**
+     * Start time in microseconds, relative to the start of profiling
+     */
+    ts: number
+    /**
+     * Duration in microseconds
+     */
+    dur: number
+    pid: number
+    tid: number
+}
+
+export interface IProfileReport {
+    /**
+     * Time in milliseconds between starting and stopping the profiler
+     */
+    duration: number
+    /**
+     * One entry per action, reaction and computed value name, sorted by total time
+     */
+    entries: IProfileEntry[]
+    /**
+     * Returns the recording in the Chrome Trace Event format,
+     * which can be loaded in for example the Performance tab of the Chrome dev tools
+     */
+    toChromeTrace(): { traceEvents: IChromeTraceEvent[] }
+}
+
+interface IRun {
+    name: string
+    type: ProfiledEventType
+    start: number
+    duration: number
+    childTime: number
+}
+
+let activeProfiler: { stop: Lambda; startTime: number; runs: IRun[] } | undefined = undefined
+
+/**
+ * Starts recording how often, and how long, actions, reactions and computed values run
+ */
+export function startProfiling() {
+    if (activeProfiler)
+        fail(process.env.NODE_ENV !== "production" && "The profiler has already been started")
+    const runs: IRun[] = []
+    // started spy events, with the run they belong to, if any
+    const stack: (IRun | undefined)[] = []
+
+    const stop = spy((event: SpyEvent) => {
+        if (event.type === "report-end") {
+            const run = stack.pop()
+            if (!run) return
+            run.duration = event.time !== undefined ? event.time : now() - run.start
+            const parent = findParentRun(stack)
+            if (parent) parent.childTime += run.duration
+        } else if (
+            event.type === "action" ||
+            event.type === "reaction" ||
+            event.type === "compute"
+        ) {
+            const run: IRun = {
+                name: event.name,
+                type: event.type,
+                start: now(),
+                duration: 0,
+                childTime: 0
+            }
+            runs.push(run)
+            stack.push(run)
+        } else if ((event as any).spyReportStart) {
+            stack.push(undefined)
+        }
+    })
+    activeProfiler = { stop, startTime: now(), runs }
+}
+
+/**
+ * Stops the profiler and returns the report of everything that was recorded since `startProfiling`
+ */
+export function stopProfiling(): IProfileReport {
+    if (!activeProfiler)
+        return fail(process.env.NODE_ENV !== "production" && "The profiler has not been started")
+    const { stop, startTime, runs } = activeProfiler
+    activeProfiler = undefined
+    stop()
+    return createReport(startTime, now() - startTime, runs)
+}
+
+function findParentRun(stack: (IRun | undefined)[]): IRun | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) if (stack[i]) return stack[i]
+    return undefined
+}
+
+function createReport(startTime: number, duration: number, runs: IRun[]): IProfileReport {
+    const entries: { [key: string]: IProfileEntry } = {}
+    runs.forEach(run => {
+        const key = run.type + ":" + run.name
+        const entry =
+            entries[key] ||
+            (entries[key] = { name: run.name, type: run.type, count: 0, totalTime: 0, selfTime: 0 })
+        entry.count++
+        entry.totalTime += run.duration
+        entry.selfTime += Math.max(0, run.duration - run.childTime)
+    })
+    return {
+        duration,
+        entries: Object.keys(entries)
+            .map(key => entries[key])
+            .sort((a, b) => b.totalTime - a.totalTime),
+        toChromeTrace() {
+            return {
+                traceEvents: runs.map(run => ({
+                    name: run.name,
+                    cat: run.type,
+                    ph: "X" as "X",
+                    ts: Math.round((run.start - startTime) * 1000),
+                    dur: Math.round(run.duration * 1000),
+                    pid: 1,
+                    tid: 1
+                }))
+            }
+        }
+    }
+}
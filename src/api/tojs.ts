@@ -1,6 +1,7 @@
 import { isObservableArray } from "../types/observablearray"
 import { isObservableObject } from "../types/observableobject"
 import { isObservableMap } from "../types/observablemap"
+import { isObservableSet } from "../types/observableset"
 import { isObservableValue } from "../types/observablevalue"
 import { isObservable } from "./isobservable"
 import { keys } from "./object-api"
@@ -70,6 +71,13 @@ export function toJS(source, options?: ToJSOptions, __alreadySeen: [any, any][]
                 return res
             }
         }
+        if (isObservableSet(source)) {
+            const res = cache(new Set())
+            source.forEach(value => {
+                res.add(toJS(value, options!, __alreadySeen))
+            })
+            return res
+        }
         if (isObservableValue(source)) return toJS(source.get(), options!, __alreadySeen)
     }
     return source
@@ -1,7 +1,8 @@
 import { globalState } from "../core/globalstate"
 import { getAtom } from "../types/type-utils"
 import { fail } from "../utils/utils"
-import { TraceMode } from "../core/derivation"
+import { IDerivation, ITraceInvalidation, TraceMode } from "../core/derivation"
+import { formatValue } from "./logger"
 
 export function trace(thing?: any, prop?: string, enterBreakPoint?: boolean): void
 export function trace(thing?: any, enterBreakPoint?: boolean): void
@@ -32,3 +33,26 @@ function getAtomFromArgs(args): any {
             return getAtom(args[0], args[1])
     }
 }
+
+/**
+ * Logs why a traced derivation is running again, based on the changes that invalidated it
+ */
+export function logTraceInvalidations(derivation: IDerivation) {
+    const invalidations = derivation.traceInvalidations
+    if (!invalidations) return
+    derivation.traceInvalidations = undefined
+    invalidations.forEach(invalidation =>
+        console.log(
+            `[mobx.trace] '${derivation.name}' is running again because ${describeInvalidation(
+                invalidation
+            )}`
+        )
+    )
+}
+
+function describeInvalidation({ observable, action, change }: ITraceInvalidation) {
+    let res = `'${observable}' changed`
+    if (change) res += ` from ${formatValue(change.oldValue)} to ${formatValue(change.newValue)}`
+    if (action) res += ` in action '${action}'`
+    return res
+}
@@ -0,0 +1,124 @@
+import { Reaction } from "../core/reaction"
+import { executeAction } from "../core/action"
+import { ObservableValue } from "../types/observablevalue"
+import { referenceEnhancer } from "../types/modifiers"
+import { Lambda, fail, getNextId } from "../utils/utils"
+import { IJsonPatch, onPatch, applyPatch } from "./patch"
+
+export interface IUndoManager {
+    readonly canUndo: boolean
+    readonly canRedo: boolean
+    undo(): void
+    redo(): void
+    clear(): void
+    dispose(): void
+}
+
+interface IHistoryEntry {
+    patches: IJsonPatch[]
+    reversePatches: IJsonPatch[]
+}
+
+/**
+ * Records all changes in the tree of observables under `root`, and makes them undoable.
+ * Changes are grouped per outermost batch, so everything that happens in a single (outermost)
+ * action or transaction is undone in one step.
+ */
+export function createUndoManager(root: any, name = "UndoManager@" + getNextId()): IUndoManager {
+    return new UndoManager(root, name)
+}
+
+class UndoManager implements IUndoManager {
+    private history: IHistoryEntry[] = []
+    private pendingEntry: IHistoryEntry | undefined = undefined
+    private isApplying = false
+    // amount of history entries that are currently applied
+    private position: ObservableValue<number>
+    private size: ObservableValue<number>
+    // reactions run after the outermost batch has ended, which is exactly when a group is complete
+    private commitReaction: Reaction
+    private disposePatchListener: Lambda
+
+    constructor(private root: any, public name: string) {
+        this.position = new ObservableValue(0, referenceEnhancer, `${name}.position`)
+        this.size = new ObservableValue(0, referenceEnhancer, `${name}.size`)
+        this.commitReaction = new Reaction(`${name}.commit`, () => this.commit())
+        this.disposePatchListener = onPatch(root, (patch, reversePatch) =>
+            this.record(patch, reversePatch)
+        )
+    }
+
+    get canUndo() {
+        return this.position.get() > 0
+    }
+
+    get canRedo() {
+        return this.position.get() < this.size.get()
+    }
+
+    undo() {
+        executeAction(`${this.name}.undo`, () => {
+            this.commit()
+            if (!this.canUndo) fail(`[${this.name}] There is nothing to undo`)
+            const position = this.position.get() - 1
+            this.applyPatches(this.history[position].reversePatches)
+            this.position.set(position)
+        })
+    }
+
+    redo() {
+        executeAction(`${this.name}.redo`, () => {
+            this.commit()
+            if (!this.canRedo) fail(`[${this.name}] There is nothing to redo`)
+            const position = this.position.get()
+            this.applyPatches(this.history[position].patches)
+            this.position.set(position + 1)
+        })
+    }
+
+    clear() {
+        executeAction(`${this.name}.clear`, () => {
+            this.pendingEntry = undefined
+            this.history = []
+            this.position.set(0)
+            this.size.set(0)
+        })
+    }
+
+    dispose() {
+        this.disposePatchListener()
+        this.commitReaction.dispose()
+    }
+
+    private record(patch: IJsonPatch, reversePatch: IJsonPatch) {
+        if (this.isApplying) return
+        const isNewEntry = !this.pendingEntry
+        if (isNewEntry) this.pendingEntry = { patches: [], reversePatches: [] }
+        this.pendingEntry!.patches.push(patch)
+        this.pendingEntry!.reversePatches.unshift(reversePatch)
+        // outside a batch, the reaction runs (and commits) immediately
+        if (isNewEntry) this.commitReaction.schedule()
+    }
+
+    private commit() {
+        const entry = this.pendingEntry
+        if (!entry) return
+        this.pendingEntry = undefined
+        executeAction(`${this.name}.commit`, () => {
+            // recording a new change discards everything that could be redone
+            this.history.splice(this.position.get())
+            this.history.push(entry)
+            this.position.set(this.history.length)
+            this.size.set(this.history.length)
+        })
+    }
+
+    private applyPatches(patches: IJsonPatch[]) {
+        this.isApplying = true
+        try {
+            applyPatch(this.root, patches)
+        } finally {
+            this.isApplying = false
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { Lambda, fail, getNextId } from "../utils/utils"
+import { Lambda, fail, getNextId, IAbortSignal } from "../utils/utils"
 import { IReactionDisposer } from "../core/reaction"
 import { autorun } from "./autorun"
 import { createAction } from "../core/action"
@@ -7,6 +7,10 @@ export interface IWhenOptions {
     name?: string
     timeout?: number
     onError?: (error: any) => void
+    /**
+     * Disposes the `when` once the signal aborts. The promise form of `when` then rejects with "WHEN_ABORTED"
+     */
+    signal?: IAbortSignal
 }
 
 export function when(
@@ -26,10 +30,12 @@ export function when(predicate: any, arg1?: any, arg2?: any): any {
 
 function _when(predicate: () => boolean, effect: Lambda, opts: IWhenOptions): IReactionDisposer {
     let timeoutHandle: any
+    let removeAbortListener: Lambda | undefined
     if (typeof opts.timeout === "number") {
         timeoutHandle = setTimeout(() => {
             if (!disposer.$mobx.isDisposed) {
                 disposer()
+                if (removeAbortListener) removeAbortListener()
                 const error = new Error("WHEN_TIMEOUT")
                 if (opts.onError) opts.onError(error)
                 else throw error
@@ -39,13 +45,33 @@ function _when(predicate: () => boolean, effect: Lambda, opts: IWhenOptions): IR
 
     opts.name = opts.name || "When@" + getNextId()
     const effectAction = createAction(opts.name + "-effect", effect as Function)
+    const signal = opts.signal
     const disposer = autorun(r => {
-        if (predicate()) {
+        if (signal && signal.aborted) {
             r.dispose()
             if (timeoutHandle) clearTimeout(timeoutHandle)
+        } else if (predicate()) {
+            r.dispose()
+            if (timeoutHandle) clearTimeout(timeoutHandle)
+            if (removeAbortListener) removeAbortListener()
             effectAction()
         }
     }, opts)
+    if (signal && !disposer.$mobx.isDisposed) {
+        const onAbort = () => {
+            if (timeoutHandle) clearTimeout(timeoutHandle)
+            disposer()
+            signal.removeEventListener("abort", onAbort)
+        }
+        signal.addEventListener("abort", onAbort)
+        removeAbortListener = () => signal.removeEventListener("abort", onAbort)
+        const disposeAndRemoveListener = (() => {
+            disposer()
+            removeAbortListener!()
+        }) as IReactionDisposer
+        disposeAndRemoveListener.$mobx = disposer.$mobx
+        return disposeAndRemoveListener
+    }
     return disposer
 }
 
@@ -56,13 +82,24 @@ function whenPromise(
     if (process.env.NODE_ENV !== "production" && opts && opts.onError)
         return fail(`the options 'onError' and 'promise' cannot be combined`)
     let cancel
+    let removeAbortListener: Lambda | undefined
     const res = new Promise((resolve, reject) => {
         let disposer = _when(predicate, resolve, { ...opts, onError: reject })
         cancel = () => {
             disposer()
             reject("WHEN_CANCELLED")
         }
+        if (opts && opts.signal) {
+            const signal = opts.signal
+            const onAbort = () => reject("WHEN_ABORTED")
+            if (signal.aborted) onAbort()
+            else {
+                signal.addEventListener("abort", onAbort)
+                removeAbortListener = () => signal.removeEventListener("abort", onAbort)
+            }
+        }
     })
+    if (removeAbortListener) res.then(removeAbortListener, removeAbortListener)
     ;(res as any).cancel = cancel
     return res as any
 }
@@ -1,28 +1,64 @@
 import { IDerivation } from "./derivation"
-import { invariant } from "../utils/utils"
-import { untrackedStart, untrackedEnd } from "./derivation"
+import { invariant, Lambda, once, now } from "../utils/utils"
+import {
+    untrackedStart,
+    untrackedEnd,
+    allowStateReadsStart,
+    allowStateReadsEnd
+} from "./derivation"
 import { startBatch, endBatch } from "./observable"
 import { isSpyEnabled, spyReportStart, spyReportEnd } from "./spy"
 import { globalState } from "./globalstate"
+import { startRecordingChanges, endRecordingChanges, revertChanges } from "../types/record-utils"
 
 export interface IAction {
     isMobxAction: boolean
 }
 
-export function createAction(actionName: string, fn: Function): Function & IAction {
+export interface IActionCall {
+    name: string
+    scope: any
+    args: any[]
+}
+
+/**
+ * An action middleware receives the action that is about to run, and should call `next` to proceed.
+ * Middlewares can inspect and modify `call.args`, veto the action by not calling `next` (or throwing),
+ * and inspect or replace the value returned by `next`.
+ */
+export type IActionMiddleware = (call: IActionCall, next: () => any) => any
+
+export function createAction(actionName: string, fn: Function, atomic = false): Function & IAction {
     if (process.env.NODE_ENV !== "production") {
         invariant(typeof fn === "function", "`action` can only be invoked on functions")
         if (typeof actionName !== "string" || !actionName)
             fail(`actions should have valid names, got: '${actionName}'`)
     }
-    const res = function() {
-        return executeAction(actionName, fn, this, arguments)
-    }
+    const res = atomic
+        ? function() {
+              return executeAtomicAction(actionName, fn, this, arguments)
+          }
+        : function() {
+              return executeAction(actionName, fn, this, arguments)
+          }
     ;(res as any).isMobxAction = true
     return res as any
 }
 
 export function executeAction(actionName: string, fn: Function, scope?: any, args?: IArguments) {
+    if (globalState.actionMiddlewares.length > 0)
+        return applyActionMiddlewares(actionName, scope, args, call =>
+            runAction(call.name, fn, call.scope, call.args)
+        )
+    return runAction(actionName, fn, scope, args)
+}
+
+function runAction(
+    actionName: string,
+    fn: Function,
+    scope: any,
+    args: IArguments | any[] | undefined
+) {
     const runInfo = startAction(actionName, fn, scope, args)
     try {
         return fn.apply(scope, args)
@@ -31,9 +67,81 @@ export function executeAction(actionName: string, fn: Function, scope?: any, arg
     }
 }
 
+/**
+ * Like executeAction, but if `fn` throws, all changes made to observables during the action are reverted
+ * before the batch ends. So reactions never observe a half applied action.
+ */
+export function executeAtomicAction(
+    actionName: string,
+    fn: Function,
+    scope?: any,
+    args?: IArguments
+) {
+    if (globalState.actionMiddlewares.length > 0)
+        return applyActionMiddlewares(actionName, scope, args, call =>
+            runAtomicAction(call.name, fn, call.scope, call.args)
+        )
+    return runAtomicAction(actionName, fn, scope, args)
+}
+
+function runAtomicAction(
+    actionName: string,
+    fn: Function,
+    scope: any,
+    args: IArguments | any[] | undefined
+) {
+    const runInfo = startAction(actionName, fn, scope, args)
+    const recorder = startRecordingChanges()
+    let succeeded = false
+    try {
+        const res = fn.apply(scope, args)
+        succeeded = true
+        return res
+    } finally {
+        endRecordingChanges(recorder, succeeded)
+        if (!succeeded) revertChanges(recorder)
+        endAction(runInfo)
+    }
+}
+
+/**
+ * Registers a middleware that wraps every action invocation. Middlewares run in order of registration,
+ * before the action starts its batch. Returns a function that removes the middleware again.
+ */
+export function addActionMiddleware(middleware: IActionMiddleware): Lambda {
+    process.env.NODE_ENV !== "production" &&
+        invariant(typeof middleware === "function", "`addActionMiddleware` expects a function")
+    globalState.actionMiddlewares.push(middleware)
+    return once(() => {
+        globalState.actionMiddlewares = globalState.actionMiddlewares.filter(m => m !== middleware)
+    })
+}
+
+function applyActionMiddlewares(
+    actionName: string,
+    scope: any,
+    args: IArguments | undefined,
+    run: (call: IActionCall) => any
+) {
+    // middlewares that are added or removed while the action is running don't affect this invocation
+    const middlewares = globalState.actionMiddlewares.slice()
+    const call: IActionCall = {
+        name: actionName,
+        scope,
+        args: args ? Array.prototype.slice.call(args) : []
+    }
+    function next(index: number) {
+        if (index === middlewares.length) return run(call)
+        return middlewares[index](call, () => next(index + 1))
+    }
+    return next(0)
+}
+
 interface IActionRunInfo {
     prevDerivation: IDerivation | null
     prevAllowStateChanges: boolean
+    prevAllowStateReads: boolean
+    prevActionName: string | undefined
     notifySpy: boolean
     startTime: number
 }
@@ -42,12 +150,12 @@ function startAction(
     actionName: string,
     fn: Function,
     scope: any,
-    args?: IArguments
+    args?: IArguments | any[]
 ): IActionRunInfo {
     const notifySpy = isSpyEnabled() && !!actionName
     let startTime: number = 0
     if (notifySpy) {
-        startTime = Date.now()
+        startTime = now()
         const l = (args && args.length) || 0
         const flattendArgs = new Array(l)
         if (l > 0) for (let i = 0; i < l; i++) flattendArgs[i] = args![i]
@@ -61,9 +169,14 @@ function startAction(
     const prevDerivation = untrackedStart()
     startBatch()
     const prevAllowStateChanges = allowStateChangesStart(true)
+    const prevAllowStateReads = allowStateReadsStart(true)
+    const prevActionName = globalState.currentActionName
+    if (actionName) globalState.currentActionName = actionName
     return {
         prevDerivation,
         prevAllowStateChanges,
+        prevAllowStateReads,
+        prevActionName,
         notifySpy,
         startTime
     }
@@ -71,9 +184,11 @@ function startAction(
 
 function endAction(runInfo: IActionRunInfo) {
     allowStateChangesEnd(runInfo.prevAllowStateChanges)
+    allowStateReadsEnd(runInfo.prevAllowStateReads)
+    globalState.currentActionName = runInfo.prevActionName
     endBatch()
     untrackedEnd(runInfo.prevDerivation)
-    if (runInfo.notifySpy) spyReportEnd({ time: Date.now() - runInfo.startTime })
+    if (runInfo.notifySpy) spyReportEnd({ time: now() - runInfo.startTime })
 }
 
 export function allowStateChanges<T>(allowStateChanges: boolean, func: () => T): T {
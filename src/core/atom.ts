@@ -24,6 +24,7 @@ export function declareAtom() {
         diffValue = 0
         lastAccessedBy = 0
         lowestObserverState = IDerivationState.NOT_TRACKING
+        reactiveContext: MobXGlobals = globalState
         /**
          * Create a new atom. For debugging purposes it is recommended to give it a name.
          * The onBecomeObserved and onBecomeUnobserved callbacks can be used for resource management.
@@ -43,6 +44,10 @@ export function declareAtom() {
      * Returns true if there is currently a reactive context.
      */
         public reportObserved(): boolean {
+            if (this.reactiveContext !== globalState) {
+                checkCrossContextRead(this.name)
+                return withGlobalState(this.reactiveContext, () => reportObserved(this))
+            }
             return reportObserved(this)
         }
 
@@ -50,6 +55,10 @@ export function declareAtom() {
      * Invoke this method _after_ this method has changed to signal mobx that all its observers should invalidate.
      */
         public reportChanged() {
+            if (this.reactiveContext !== globalState) {
+                checkCrossContextChange(this.name)
+                return withGlobalState(this.reactiveContext, () => this.reportChanged())
+            }
             startBatch()
             propagateChanged(this)
             endBatch()
@@ -76,5 +85,12 @@ export function createAtom(
 
 import { IObservable, propagateChanged, reportObserved, startBatch, endBatch } from "./observable"
 import { IDerivationState } from "./derivation"
+import {
+    globalState,
+    withGlobalState,
+    MobXGlobals,
+    checkCrossContextRead,
+    checkCrossContextChange
+} from "./globalstate"
 import { createInstanceofPredicate, noop, getNextId } from "../utils/utils"
 import { onBecomeObserved, onBecomeUnobserved } from "../api/become-observed"
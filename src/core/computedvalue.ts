@@ -16,9 +16,16 @@ import {
     shouldCompute,
     CaughtException,
     isCaughtException,
-    TraceMode
+    TraceMode,
+    allowStateReadsStart,
+    allowStateReadsEnd
 } from "./derivation"
-import { globalState } from "./globalstate"
+import {
+    globalState,
+    withGlobalState,
+    MobXGlobals,
+    checkCrossContextRead
+} from "./globalstate"
 import { createAction } from "./action"
 import {
     createInstanceofPredicate,
@@ -26,11 +33,14 @@ import {
     getNextId,
     invariant,
     Lambda,
+    now,
     primitiveSymbol,
     toPrimitive
 } from "../utils/utils"
-import { isSpyEnabled, spyReport } from "./spy"
+import { isSpyEnabled, spyReport, spyReportStart, spyReportEnd } from "./spy"
+import { isRecordingRecomputeStats, reportRecompute } from "./recomputestats"
 import { autorun } from "../api/autorun"
+import { logTraceInvalidations } from "../api/trace"
 import { IEqualsComparer, comparer } from "../utils/comparer"
 import { IValueDidChange } from "../types/observablevalue"
 
@@ -38,6 +48,15 @@ export interface IComputedValue<T> {
     get(): T
     set(value: T): void
     observe(listener: (change: IValueDidChange<T>) => void, fireImmediately?: boolean): Lambda
+    /**
+     * Whether the last computation threw.
+     * Like `get()`, reading it brings the computed value up to date and is tracked by the running derivation
+     */
+    readonly isErrored: boolean
+    /**
+     * The exception thrown by the last computation, if any
+     */
+    readonly error: any
 }
 
 export interface IComputedValueOptions<T> {
@@ -48,6 +67,11 @@ export interface IComputedValueOptions<T> {
     context?: any
     requiresReaction?: boolean
     keepAlive?: boolean
+    /**
+     * Called when the computation throws. The returned value is used as value of the computed
+     * value, instead of rethrowing the exception to every reader
+     */
+    onError?: (error: any) => T
 }
 
 /**
@@ -85,16 +109,22 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
     __mapid = "#" + getNextId()
     protected value: T | undefined | CaughtException = new CaughtException(null)
     name: string
-    triggeredBy: string
+    triggeredBy: string | undefined = undefined
+    triggeredByAction: string | undefined = undefined
+    computeCount = 0
+    lastComputeDuration = 0
     isComputing: boolean = false // to check for cycles
     isRunningSetter: boolean = false
     //computed具体内容
     derivation: () => T
     setter: (value: T) => void
     isTracing: TraceMode = TraceMode.NONE
+    reactiveContext: MobXGlobals = globalState
     public scope: Object | undefined
     private equals: IEqualsComparer<any>
     private requiresReaction
+    private onError: ((error: any) => T) | undefined
+    private caughtException: CaughtException | undefined = undefined
 
     /**
      * Create a new computed value based on a function expression.
@@ -121,6 +151,7 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
                 : comparer.default)
         this.scope = options.context
         this.requiresReaction = !!options.requiresReaction
+        this.onError = options.onError
         if (options.keepAlive === true) {
             // dangerous: never exposed, so this cmputed value should not depend on observables
             // that live globally, or it will never get disposed! (nor anything attached to it)
@@ -141,6 +172,10 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
      * Will evaluate its computation first if needed.
      */
     public get(): T {
+        if (this.reactiveContext !== globalState) {
+            checkCrossContextRead(this.name)
+            return withGlobalState(this.reactiveContext, () => this.get())
+        }
         if (this.isComputing) fail(`Cycle detected in computation ${this.name}: ${this.derivation}`)
         //1.轻量级计算
         if (globalState.inBatch === 0) {
@@ -153,7 +188,10 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
             //2. 重量级计算当globalState.inBatch值大于0，说明处于上级事务中
         } else {
             reportObserved(this)
-            if (shouldCompute(this)) if (this.trackAndCompute()) propagateChangeConfirmed(this)
+            if (shouldCompute(this)) {
+                const oldValue = this.value
+                if (this.trackAndCompute()) propagateChangeConfirmed(this, oldValue, this.value)
+            }
         }
         const result = this.value!
 
@@ -188,51 +226,113 @@ export class ComputedValue<T> implements IObservable, IComputedValue<T>, IDeriva
     }
 
     private trackAndCompute(): boolean {
-        if (isSpyEnabled()) {
-            spyReport({
+        const notifySpy = isSpyEnabled()
+        if (notifySpy) {
+            spyReportStart({
                 object: this.scope,
                 type: "compute",
                 name: this.name
             })
         }
+        if (this.isTracing !== TraceMode.NONE) logTraceInvalidations(this)
         const oldValue = this.value
+        const oldError = this.caughtException && this.caughtException.cause
         const wasSuspended =
             /* see #1208 */ this.dependenciesState === IDerivationState.NOT_TRACKING
-        const newValue = (this.value = this.computeValue(true))
-        return (
+        let newValue: T | undefined | CaughtException
+        try {
+            newValue = this.value = this.computeValue(true)
+        } finally {
+            // the derivation can throw if error boundaries are disabled
+            if (notifySpy) spyReportEnd({ time: this.lastComputeDuration })
+        }
+        const changed =
             wasSuspended ||
             isCaughtException(oldValue) ||
             isCaughtException(newValue) ||
+            // a value recovered by onError changes when the error does, so that `error` can be observed
+            oldError !== (this.caughtException && this.caughtException.cause) ||
             !this.equals(oldValue, newValue)
-        )
+        if (isRecordingRecomputeStats()) reportRecompute("computed", this.name, !changed)
+        return changed
     }
 
     //计算 计算属性 的值并返回
     computeValue(track: boolean) {
+        const startTime = now()
         this.isComputing = true
         globalState.computationDepth++
+        this.caughtException = undefined
         let res: T | CaughtException
         if (track) {
-            res = trackDerivedFunction(this, this.derivation, this.scope)
+            res = trackDerivedFunction(this, this.derive, this)
         } else {
+            // untracked reads of computed values are warned about by `computedRequiresReaction`
+            const prevAllowStateReads = allowStateReadsStart(true)
             if (globalState.disableErrorBoundaries === true) {
-                res = this.derivation.call(this.scope)
+                res = this.derive()
             } else {
                 try {
-                    res = this.derivation.call(this.scope)
+                    res = this.derive()
                 } catch (e) {
                     res = new CaughtException(e)
                 }
             }
+            allowStateReadsEnd(prevAllowStateReads)
         }
         globalState.computationDepth--
         this.isComputing = false
+        this.lastComputeDuration = now() - startTime
+        this.computeCount++
+        // if `onError` recovered, the exception of the derivation itself was already stored
+        if (!this.caughtException && isCaughtException(res)) this.caughtException = res
         return res
     }
 
+    // falls back to `onError` while still being tracked, so that the fallback can depend on observables as well
+    private derive(): T {
+        if (!this.onError || globalState.disableErrorBoundaries === true)
+            return this.derivation.call(this.scope)
+        try {
+            return this.derivation.call(this.scope)
+        } catch (e) {
+            this.caughtException = new CaughtException(e)
+            return this.recoverFromError(e)
+        }
+    }
+
+    private recoverFromError(error: any): T {
+        if (isSpyEnabled()) {
+            const message = `[mobx] Computed value '${this.name}' threw, using 'onError' instead`
+            spyReport({ type: "error", name: this.name, message, error: "" + error })
+        }
+        globalState.globalReactionErrorHandlers.forEach(f => f(error, this))
+        return this.onError!.call(this.scope, error)
+    }
+
+    get isErrored(): boolean {
+        return this.refreshException() !== undefined
+    }
+
+    get error(): any {
+        const exception = this.refreshException()
+        return exception ? exception.cause : undefined
+    }
+
+    // brings the computed value up to date (and observes it) before inspecting the last exception
+    private refreshException(): CaughtException | undefined {
+        try {
+            this.get()
+        } catch (e) {
+            // the exception is exposed by `error`
+        }
+        return this.caughtException
+    }
+
     suspend() {
         clearObserving(this)
         this.value = undefined // don't hold on to computed value!
+        this.caughtException = undefined
     }
 
     observe(listener: (change: IValueDidChange<T>) => void, fireImmediately?: boolean): Lambda {
@@ -1,8 +1,9 @@
 import { IObservable, IDepTreeNode, addObserver, removeObserver } from "./observable"
 import { IAtom } from "./atom"
-import { globalState } from "./globalstate"
+import { globalState, withGlobalState, checkCrossContextChange } from "./globalstate"
 import { fail } from "../utils/utils"
 import { isComputedValue } from "./computedvalue"
+import { getDebugName } from "../types/type-utils"
 
 export enum IDerivationState {
     // before being run or (outside batch and not being observed)
@@ -50,6 +51,33 @@ export interface IDerivation extends IDepTreeNode {
     __mapid: string
     onBecomeStale(): void
     isTracing: TraceMode
+    /**
+     * Name of the observable whose change caused the derivation to become stale last
+     */
+    triggeredBy?: string
+    /**
+     * Name of the action that was running when the derivation became (possibly) stale last
+     */
+    triggeredByAction?: string
+    /**
+     * The changes that invalidated a traced derivation since its last run
+     */
+    traceInvalidations?: ITraceInvalidation[]
+}
+
+export interface ITraceInvalidation {
+    /**
+     * Name of the observable or computed value that changed
+     */
+    observable: string
+    /**
+     * Name of the action that was running when the change happened
+     */
+    action: string | undefined
+    /**
+     * Only available for changes of observable and computed values
+     */
+    change?: { oldValue: any; newValue: any }
 }
 
 export class CaughtException {
@@ -118,6 +146,12 @@ export function isComputingDerivation() {
 }
 
 export function checkIfStateModificationsAreAllowed(atom: IAtom) {
+    if (atom.reactiveContext !== globalState) {
+        checkCrossContextChange(atom.name)
+        return withGlobalState(atom.reactiveContext, () =>
+            checkIfStateModificationsAreAllowed(atom)
+        )
+    }
     const hasObservers = atom.observers.length > 0
     // Should never be possible to change an observed observable from inside computed, see #798
     if (globalState.computationDepth > 0 && hasObservers)
@@ -126,10 +160,16 @@ export function checkIfStateModificationsAreAllowed(atom: IAtom) {
                 `Computed values are not allowed to cause side effects by changing observables that are already being observed. Tried to modify: ${atom.name}`
         )
     // Should not be possible to change observed state outside strict mode, except during initialization, see #563
-    if (!globalState.allowStateChanges && hasObservers)
+    // With "always", changing state outside actions is not allowed at all
+    if (
+        !globalState.allowStateChanges &&
+        (atom.isBeingObserved || globalState.enforceActions === "always")
+    )
         fail(
             process.env.NODE_ENV !== "production" &&
-                (globalState.enforceActions
+                (globalState.enforceActions === "always"
+                    ? "Since strict-mode is enabled, changing observable values outside actions is not allowed. Please wrap the code in an `action` if this change is intended. Tried to modify: "
+                    : globalState.enforceActions === "observed"
                     ? "Since strict-mode is enabled, changing observed observable values outside actions is not allowed. Please wrap the code in an `action` if this change is intended. Tried to modify: "
                     : "Side effects like changing state are not allowed at this point. Are you trying to modify state from, for example, the render function of a React component? Tried to modify: ") +
                     atom.name
@@ -150,6 +190,7 @@ export function trackDerivedFunction<T>(derivation: IDerivation, f: () => T, con
     derivation.unboundDepsCount = 0
     derivation.runId = ++globalState.runId
     const prevTracking = globalState.trackingDerivation
+    const prevAllowStateReads = allowStateReadsStart(true)
     // 作用是将 derivation （此处等同于 reaction 对象）挂载到 ”全局变量“ globalState 的 trackingDerivation 属性上
     // 这样其他对象就能获取到该 derivation 对象的数据了
     globalState.trackingDerivation = derivation
@@ -166,6 +207,7 @@ export function trackDerivedFunction<T>(derivation: IDerivation, f: () => T, con
     }
     //把当前的reaction 切换为上一个reaction
     globalState.trackingDerivation = prevTracking
+    allowStateReadsEnd(prevAllowStateReads)
     //更新依赖
     bindDependencies(derivation)
     return result
@@ -263,6 +305,29 @@ export function untrackedEnd(prev: IDerivation | null) {
     globalState.trackingDerivation = prev
 }
 
+export function allowStateReadsStart(allowStateReads: boolean) {
+    const prev = globalState.allowStateReads
+    globalState.allowStateReads = allowStateReads
+    return prev
+}
+
+export function allowStateReadsEnd(prev: boolean) {
+    globalState.allowStateReads = prev
+}
+
+export function checkIfStateReadsAreAllowed(observable: IObservable) {
+    if (
+        process.env.NODE_ENV !== "production" &&
+        !globalState.allowStateReads &&
+        globalState.observableRequiresReaction &&
+        !isComputedValue(observable) // computed values have their own check, see `computedRequiresReaction`
+    ) {
+        console.warn(
+            `[mobx] Observable ${getDebugName(observable)} is being read outside a reactive context`
+        )
+    }
+}
+
 /**
  * needed to keep `lowestObserverState` correct. when changing from (2 or 1) to 0
  *
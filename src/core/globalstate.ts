@@ -1,7 +1,9 @@
-import { getGlobal, fail } from "../utils/utils"
+import { getGlobal, fail, Lambda } from "../utils/utils"
 import { IDerivation } from "./derivation"
 import { Reaction } from "./reaction"
 import { IObservable } from "./observable"
+import { IActionMiddleware } from "./action"
+import { IRecomputeStats } from "./recomputestats"
 
 /**
  * These values will persist if global state is reset
@@ -9,9 +11,13 @@ import { IObservable } from "./observable"
 const persistentKeys = [
     "mobxGuid",
     "spyListeners",
+    "actionMiddlewares",
     "enforceActions",
     "computedRequiresReaction",
+    "observableRequiresReaction",
     "disableErrorBoundaries",
+    "recordRecomputeStats",
+    "trackReactions",
     "runId"
 ]
 
@@ -61,11 +67,22 @@ export class MobXGlobals {
      */
     pendingReactions: Reaction[] = []
 
+    /**
+     * Reactions that have been started and not yet disposed, by `__mapid`. Only filled if `trackReactions` is enabled.
+     * Holds weak references where supported, so that reactions that can't be reached otherwise can still be collected
+     */
+    liveReactions: { [id: string]: { deref(): Reaction | undefined } } = {}
+
     /**
      * Are we currently processing reactions?
      */
     isRunningReactions = false
 
+    /**
+     * Name of the currently running action, if any
+     */
+    currentActionName: string | undefined = undefined
+
     /**
      * Is it allowed to change observables at this point?
      * In general, MobX doesn't allow that when running computations and React.render.
@@ -73,15 +90,31 @@ export class MobXGlobals {
      */
     allowStateChanges = true
     /**
-     * If strict mode is enabled, state changes are by default not allowed
+     * Whether state changes outside actions are forbidden: `"observed"` only forbids changing observed state,
+     * `"always"` forbids changing any state outside actions.
      */
-    enforceActions = false
+    enforceActions: "never" | "observed" | "always" = "never"
 
     /**
      * Spy callbacks
      */
     spyListeners: { (change: any): void }[] = []
 
+    /**
+     * Id of the last emitted spy event
+     */
+    spyEventId = 0
+
+    /**
+     * Ids of the spy events that have been started, but not yet ended
+     */
+    spyEventStack: number[] = []
+
+    /**
+     * Middlewares that wrap every action invocation
+     */
+    actionMiddlewares: IActionMiddleware[] = []
+
     /**
      * Globally attached error handlers that react specifically to errors in reactions
      */
@@ -92,11 +125,42 @@ export class MobXGlobals {
      */
     computedRequiresReaction = false
 
+    /**
+     * Warn if observables are accessed outside a reactive context
+     */
+    observableRequiresReaction = false
+
+    /**
+     * Is it allowed to read observables at this point?
+     * Used to support the `observableRequiresReaction` option
+     */
+    allowStateReads = true
+
     /*
      * Don't catch and rethrow exceptions. This is useful for inspecting the state of
      * the stack when an exception occurs while debugging.
      */
     disableErrorBoundaries = false
+
+    /**
+     * Count how often computed values and reactions run without producing a different value
+     */
+    recordRecomputeStats = false
+
+    /**
+     * Register started reactions in `liveReactions`
+     */
+    trackReactions = false
+
+    /**
+     * The recorded recompute statistics, by type and name
+     */
+    recomputeStats: { [key: string]: IRecomputeStats } = {}
+
+    /**
+     * Stack of change recorders of the currently running atomic actions
+     */
+    changeRecorders: Lambda[][] = []
 }
 
 export let globalState: MobXGlobals = new MobXGlobals()
@@ -129,6 +193,65 @@ export function getGlobalState(): any {
     return globalState
 }
 
+/**
+ * An isolated MobX runtime, with its own batches, pending reactions, tracking state and configuration.
+ */
+export interface IReactiveContext {
+    readonly isMobXReactiveContext: true
+}
+
+export function createReactiveContext(): IReactiveContext {
+    const context = new MobXGlobals()
+    ;(context as any).isMobXReactiveContext = true
+    return context as any
+}
+
+/**
+ * Runs `fn` synchronously in the given reactive context.
+ * Observables, computed values and reactions remember the context in which they were created,
+ * and always read, write, batch and schedule in that context, even when used outside `runInContext`.
+ * Derivations and batches (like actions) only know about their own context though: in development builds it is an error
+ * to observe an observable of another context from a derivation, or to change it inside a batch or action.
+ * Anything else, like actions, transactions and newly created observables, uses the context that is current at that moment;
+ * for asynchronous work (like awaited promises or flows) every continuation should be wrapped in `runInContext` again.
+ */
+export function runInContext<T>(context: IReactiveContext, fn: () => T): T {
+    if (!(context instanceof MobXGlobals))
+        fail(
+            process.env.NODE_ENV !== "production" &&
+                "runInContext expects a context created by createReactiveContext"
+        )
+    return withGlobalState(context as any, fn)
+}
+
+export function checkCrossContextRead(name: string) {
+    if (process.env.NODE_ENV !== "production" && globalState.trackingDerivation)
+        fail(
+            `'${globalState.trackingDerivation.name}' cannot observe '${name}', as it belongs to another reactive context`
+        )
+}
+
+export function checkCrossContextChange(name: string) {
+    if (process.env.NODE_ENV !== "production" && globalState.inBatch > 0)
+        fail(
+            `'${name}' belongs to another reactive context and cannot be changed inside an action or batch of the current context`
+        )
+}
+
+/**
+ * Runs `fn` with `state` as the current global state.
+ * Used by atoms and derivations that are used outside the context they were created in
+ */
+export function withGlobalState<T>(state: MobXGlobals, fn: () => T): T {
+    const prevGlobalState = globalState
+    globalState = state
+    try {
+        return fn()
+    } finally {
+        globalState = prevGlobalState
+    }
+}
+
 /**
  * For testing purposes only; this will break the internal state of existing observables,
  * but can be used to get back at a stable state after throwing errors
@@ -137,5 +260,6 @@ export function resetGlobalState() {
     const defaultGlobals = new MobXGlobals()
     for (let key in defaultGlobals)
         if (persistentKeys.indexOf(key) === -1) globalState[key] = defaultGlobals[key]
-    globalState.allowStateChanges = !globalState.enforceActions
+    globalState.allowStateChanges = globalState.enforceActions === "never"
+    globalState.allowStateReads = !globalState.observableRequiresReaction
 }
@@ -1,5 +1,12 @@
-import { IDerivation, IDerivationState, TraceMode } from "./derivation"
-import { globalState } from "./globalstate"
+import {
+    IDerivation,
+    IDerivationState,
+    TraceMode,
+    ITraceInvalidation,
+    checkIfStateReadsAreAllowed,
+    isCaughtException
+} from "./derivation"
+import { globalState, MobXGlobals } from "./globalstate"
 import { runReactions } from "./reaction"
 import { ComputedValue } from "./computedvalue"
 import { getDependencyTree } from "../api/extras"
@@ -19,6 +26,10 @@ export interface IObservable extends IDepTreeNode {
      */
     lastAccessedBy: number
     isBeingObserved: boolean
+    /**
+     * The reactive context this observable was created in, see `runInContext`
+     */
+    reactiveContext: MobXGlobals
 
     lowestObserverState: IDerivationState // Used to avoid redundant propagations
     isPendingUnobservation: boolean // Used to push itself to global.pendingUnobservations at most once per batch.
@@ -149,6 +160,7 @@ export function endBatch() {
 }
 
 export function reportObserved(observable: IObservable): boolean {
+    checkIfStateReadsAreAllowed(observable)
     const derivation = globalState.trackingDerivation
     if (derivation !== null) {
         /**
@@ -193,8 +205,13 @@ export function reportObserved(observable: IObservable): boolean {
  * Also most basic use cases should be ok
  */
 
-// Called by Atom when its value changes
-export function propagateChanged(observable: IObservable) {
+// Called by Atom when its value changes, observable values pass their old and new value for tracing
+export function propagateChanged(
+    observable: IObservable,
+    hasValues = false,
+    oldValue?: any,
+    newValue?: any
+) {
     // invariantLOS(observable, "changed start");
     if (observable.lowestObserverState === IDerivationState.STALE) return
     observable.lowestObserverState = IDerivationState.STALE
@@ -203,6 +220,15 @@ export function propagateChanged(observable: IObservable) {
     let i = observers.length
     while (i--) {
         const d = observers[i]
+        d.triggeredBy = observable.name
+        d.triggeredByAction = globalState.currentActionName
+        if (d.isTracing !== TraceMode.NONE)
+            recordTraceInvalidation(
+                d,
+                observable,
+                d.triggeredByAction,
+                hasValues ? { oldValue, newValue } : undefined
+            )
         if (d.dependenciesState === IDerivationState.UP_TO_DATE) {
             if (d.isTracing !== TraceMode.NONE) {
                 logTraceInfo(d, observable)
@@ -215,7 +241,11 @@ export function propagateChanged(observable: IObservable) {
 }
 
 // Called by ComputedValue when it recalculate and its value changed
-export function propagateChangeConfirmed(observable: IObservable) {
+export function propagateChangeConfirmed(
+    observable: IObservable & IDerivation,
+    oldValue?: any,
+    newValue?: any
+) {
     // invariantLOS(observable, "confirmed start");
     if (observable.lowestObserverState === IDerivationState.STALE) return
     observable.lowestObserverState = IDerivationState.STALE
@@ -224,9 +254,18 @@ export function propagateChangeConfirmed(observable: IObservable) {
     let i = observers.length
     while (i--) {
         const d = observers[i]
-        if (d.dependenciesState === IDerivationState.POSSIBLY_STALE)
+        if (d.dependenciesState === IDerivationState.POSSIBLY_STALE) {
+            d.triggeredBy = observable.name
+            if (d.isTracing !== TraceMode.NONE) {
+                const change =
+                    isCaughtException(oldValue) || isCaughtException(newValue)
+                        ? undefined
+                        : { oldValue, newValue }
+                // computed values recompute after the action, so use the action that invalidated it
+                recordTraceInvalidation(d, observable, observable.triggeredByAction, change)
+            }
             d.dependenciesState = IDerivationState.STALE
-        else if (
+        } else if (
             d.dependenciesState === IDerivationState.UP_TO_DATE // this happens during computing of `d`, just keep lowestObserverState up to date.
         )
             observable.lowestObserverState = IDerivationState.UP_TO_DATE
@@ -246,6 +285,7 @@ export function propagateMaybeChanged(observable: IObservable) {
         const d = observers[i]
         if (d.dependenciesState === IDerivationState.UP_TO_DATE) {
             d.dependenciesState = IDerivationState.POSSIBLY_STALE
+            d.triggeredByAction = globalState.currentActionName
             if (d.isTracing !== TraceMode.NONE) {
                 logTraceInfo(d, observable)
             }
@@ -255,6 +295,21 @@ export function propagateMaybeChanged(observable: IObservable) {
     // invariantLOS(observable, "maybe end");
 }
 
+function recordTraceInvalidation(
+    derivation: IDerivation,
+    observable: IObservable,
+    action: string | undefined,
+    change: ITraceInvalidation["change"]
+) {
+    const invalidation = {
+        observable: observable.name,
+        action,
+        change
+    }
+    if (derivation.traceInvalidations) derivation.traceInvalidations.push(invalidation)
+    else derivation.traceInvalidations = [invalidation]
+}
+
 function logTraceInfo(derivation: IDerivation, observable: IObservable) {
     console.log(
         `[mobx.trace] '${derivation.name}' is invalidated due to a change in: '${observable.name}'`
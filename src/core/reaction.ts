@@ -8,10 +8,17 @@ import {
     TraceMode
 } from "./derivation"
 import { IObservable, startBatch, endBatch } from "./observable"
-import { globalState } from "./globalstate"
-import { createInstanceofPredicate, getNextId, Lambda } from "../utils/utils"
+import { globalState, withGlobalState, MobXGlobals } from "./globalstate"
+import {
+    createInstanceofPredicate,
+    getGlobal,
+    getNextId,
+    Lambda,
+    now
+} from "../utils/utils"
 import { isSpyEnabled, spyReport, spyReportStart, spyReportEnd } from "./spy"
-import { trace } from "../api/trace"
+import { trace, logTraceInvalidations } from "../api/trace"
+import { isRecordingRecomputeStats, reportRecompute } from "./recomputestats"
 
 /**
  * Reactions are a special kind of derivations. Several things distinguishes them from normal reactive computations
@@ -54,7 +61,15 @@ export class Reaction implements IDerivation, IReactionPublic {
     _isScheduled = false
     _isTrackPending = false
     _isRunning = false
+    _isRunWasted = false // set by `reaction` if the current run won't invoke its effect
     isTracing: TraceMode = TraceMode.NONE
+    triggeredBy: string | undefined = undefined
+    triggeredByAction: string | undefined = undefined
+    computeCount = 0
+    lastComputeDuration = 0
+    reactiveContext: MobXGlobals = globalState
+    createdAt = 0
+    creationStack: string | undefined = undefined
 
     // reaction = new Reaction(
     //     name, --> name
@@ -73,13 +88,20 @@ export class Reaction implements IDerivation, IReactionPublic {
         public name: string = "Reaction@" + getNextId(),
         private onInvalidate: () => void,
         private errorHandler?: (error: any, derivation: IDerivation) => void
-    ) {}
+    ) {
+        if (globalState.trackReactions) {
+            this.createdAt = now()
+            if (process.env.NODE_ENV !== "production") this.creationStack = new Error().stack
+        }
+    }
 
     onBecomeStale() {
         this.schedule()
     }
 
     schedule() {
+        if (this.reactiveContext !== globalState)
+            return withGlobalState(this.reactiveContext, () => this.schedule())
         if (!this._isScheduled) {
             //加锁表示正在部署
             this._isScheduled = true
@@ -122,11 +144,15 @@ export class Reaction implements IDerivation, IReactionPublic {
 
     //fn === reactionRunner
     track(fn: () => void) {
+        if (this.reactiveContext !== globalState)
+            return withGlobalState(this.reactiveContext, () => this.track(fn))
+        if (globalState.trackReactions && !this.isDisposed) registerLiveReaction(this)
+        if (this.isTracing !== TraceMode.NONE) logTraceInvalidations(this)
         startBatch()
         const notify = isSpyEnabled()
         let startTime
         if (notify) {
-            startTime = Date.now()
+            startTime = now()
             spyReportStart({
                 name: this.name,
                 type: "reaction"
@@ -136,18 +162,28 @@ export class Reaction implements IDerivation, IReactionPublic {
         // function reactionRunner() { --> reactionRunner
         //     view(reaction)  --> view函数 就是autorun的内容
         // }
-        const result = trackDerivedFunction(this, fn, undefined)
-        this._isRunning = false
-        this._isTrackPending = false
-        if (this.isDisposed) {
-            // disposed during last run. Clean up everything that was bound after the dispose call.
-            clearObserving(this)
-        }
-        if (isCaughtException(result)) this.reportExceptionInDerivation(result.cause)
-        if (notify) {
-            spyReportEnd({
-                time: Date.now() - startTime
-            })
+        try {
+            const runStartTime = now()
+            const result = trackDerivedFunction(this, fn, undefined)
+            this.lastComputeDuration = now() - runStartTime
+            this.computeCount++
+            if (isRecordingRecomputeStats())
+                reportRecompute("reaction", this.name, this._isRunWasted)
+            this._isRunWasted = false
+            this._isRunning = false
+            this._isTrackPending = false
+            if (this.isDisposed) {
+                // disposed during last run. Clean up everything that was bound after the dispose call.
+                clearObserving(this)
+            }
+            if (isCaughtException(result)) this.reportExceptionInDerivation(result.cause)
+        } finally {
+            // the reaction can throw if error boundaries are disabled
+            if (notify) {
+                spyReportEnd({
+                    time: now() - startTime
+                })
+            }
         }
         endBatch()
     }
@@ -175,8 +211,11 @@ export class Reaction implements IDerivation, IReactionPublic {
     }
 
     dispose() {
+        if (this.reactiveContext !== globalState)
+            return withGlobalState(this.reactiveContext, () => this.dispose())
         if (!this.isDisposed) {
             this.isDisposed = true
+            delete globalState.liveReactions[this.__mapid]
             if (!this._isRunning) {
                 // if disposed while running, clean up later. Maybe not optimal, but rare case
                 startBatch()
@@ -201,6 +240,31 @@ export class Reaction implements IDerivation, IReactionPublic {
     }
 }
 
+function registerLiveReaction(reaction: Reaction) {
+    const registry = globalState.liveReactions
+    if (registry[reaction.__mapid]) return
+    // created before tracking was enabled
+    if (!reaction.createdAt) reaction.createdAt = now()
+    const WeakRefImpl = getGlobal().WeakRef
+    registry[reaction.__mapid] =
+        typeof WeakRefImpl === "function" ? new WeakRefImpl(reaction) : { deref: () => reaction }
+}
+
+/**
+ * Returns the reactions that have been started and not yet disposed, in order of their first run.
+ * Only reactions that ran while `configure({ trackReactions: true })` was in effect are known
+ */
+export function getLiveReactions(): Reaction[] {
+    const registry = globalState.liveReactions
+    const reactions: Reaction[] = []
+    Object.keys(registry).forEach(id => {
+        const reaction = registry[id].deref()
+        if (reaction && !reaction.isDisposed) reactions.push(reaction)
+        else delete registry[id]
+    })
+    return reactions
+}
+
 export function onReactionError(handler: (error: any, derivation: IDerivation) => void): Lambda {
     globalState.globalReactionErrorHandlers.push(handler)
     return () => {
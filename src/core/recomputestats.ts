@@ -0,0 +1,43 @@
+import { globalState } from "./globalstate"
+
+export interface IRecomputeStats {
+    name: string
+    type: "computed" | "reaction"
+    /**
+     * How often the computed value was (re)computed, or the reaction ran
+     */
+    runs: number
+    /**
+     * How many of those runs were wasted: computations that produced a value equal to the previous one,
+     * or reactions whose effect wasn't invoked because their expression produced an equal value
+     */
+    wasted: number
+}
+
+export function isRecordingRecomputeStats() {
+    return globalState.recordRecomputeStats
+}
+
+export function reportRecompute(type: "computed" | "reaction", name: string, wasted: boolean) {
+    const key = type + ":" + name
+    const stats =
+        globalState.recomputeStats[key] ||
+        (globalState.recomputeStats[key] = { name, type, runs: 0, wasted: 0 })
+    stats.runs++
+    if (wasted) stats.wasted++
+}
+
+/**
+ * Returns the statistics collected since recording was enabled using `configure({ recomputeStats: true })`,
+ * aggregated per name and sorted by the number of wasted runs
+ */
+export function getRecomputeStats(): IRecomputeStats[] {
+    const stats = globalState.recomputeStats
+    return Object.keys(stats)
+        .map(key => ({ ...stats[key] }))
+        .sort((a, b) => b.wasted - a.wasted)
+}
+
+export function resetRecomputeStats() {
+    globalState.recomputeStats = {}
+}
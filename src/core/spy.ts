@@ -1,29 +1,141 @@
 import { globalState } from "./globalstate"
 import { once, Lambda } from "../utils/utils"
 
+/**
+ * The events that are emitted to `spy` listeners.
+ * Events that have `spyReportStart: true` are followed by a matching "report-end" event,
+ * events emitted in between happened as a (nested) result of the started event.
+ *
+ * `name` is the debug name of the observable, derivation or action involved.
+ * For changes to objects and maps, `key` is the affected key.
+ *
+ * Every event has an unique `id`. `parentId` is the id of the action, reaction or computation
+ * that was running when the event was emitted (for "report-end" events, the event that ends).
+ */
+export type SpyEvent = SpyEventData & {
+    id: number
+    parentId?: number
+}
+
+/**
+ * The data of a spy event, as it is reported by the emitters
+ */
+export type SpyEventData =
+    | {
+          type: "action"
+          name: string
+          object: any
+          arguments: any[]
+          spyReportStart?: boolean
+      }
+    | {
+          type: "reaction"
+          name: string
+          spyReportStart?: boolean
+      }
+    | {
+          type: "scheduled-reaction"
+          name: string
+      }
+    | {
+          type: "compute"
+          name: string
+          object: any
+          spyReportStart?: boolean
+      }
+    | {
+          type: "update"
+          name: string
+          object: any
+          key?: any
+          index?: number
+          newValue: any
+          oldValue: any
+          spyReportStart?: boolean
+      }
+    | {
+          type: "add"
+          name: string
+          object: any
+          key?: any
+          newValue: any
+          spyReportStart?: boolean
+      }
+    | {
+          type: "remove" | "delete"
+          name: string
+          object: any
+          key?: any
+          oldValue: any
+          spyReportStart?: boolean
+      }
+    | {
+          type: "splice"
+          name: string
+          object: any
+          index: number
+          removed: any[]
+          added: any[]
+          removedCount: number
+          addedCount: number
+          spyReportStart?: boolean
+      }
+    | {
+          type: "create"
+          name: string
+          object: any
+          newValue: any
+      }
+    | {
+          type: "error"
+          name: string
+          message: string
+          error: string
+      }
+    | {
+          type: "report-end"
+          spyReportEnd: true
+          time?: number
+      }
+
 export function isSpyEnabled() {
     return !!globalState.spyListeners.length
 }
 
-export function spyReport(event) {
+export function spyReport(event: SpyEventData) {
     if (!globalState.spyListeners.length) return
-    const listeners = globalState.spyListeners
-    for (let i = 0, l = listeners.length; i < l; i++) listeners[i](event)
+    const id = ++globalState.spyEventId
+    emitSpyEvent({ ...(event as any), id, parentId: currentSpyParentId() })
 }
 
-export function spyReportStart(event) {
-    const change = { ...event, spyReportStart: true }
-    spyReport(change)
+export function spyReportStart(event: SpyEventData) {
+    const id = ++globalState.spyEventId
+    emitSpyEvent({ ...(event as any), id, parentId: currentSpyParentId(), spyReportStart: true })
+    globalState.spyEventStack.push(id)
 }
 
-const END_EVENT = { spyReportEnd: true }
+export function spyReportEnd(change?: { time?: number }) {
+    const startId = globalState.spyEventStack.pop()
+    emitSpyEvent({
+        ...change,
+        type: "report-end",
+        spyReportEnd: true,
+        id: ++globalState.spyEventId,
+        parentId: startId
+    })
+}
+
+function currentSpyParentId(): number | undefined {
+    const stack = globalState.spyEventStack
+    return stack.length ? stack[stack.length - 1] : undefined
+}
 
-export function spyReportEnd(change?) {
-    if (change) spyReport({ ...change, spyReportEnd: true })
-    else spyReport(END_EVENT)
+function emitSpyEvent(event: SpyEvent) {
+    const listeners = globalState.spyListeners
+    for (let i = 0, l = listeners.length; i < l; i++) listeners[i](event)
 }
 
-export function spy(listener: (change: any) => void): Lambda {
+export function spy(listener: (change: SpyEvent) => void): Lambda {
     globalState.spyListeners.push(listener)
     return once(() => {
         globalState.spyListeners = globalState.spyListeners
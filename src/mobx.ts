@@ -45,8 +45,13 @@ export { Reaction, IReactionPublic, IReactionDisposer } from "./core/reaction"
 export { IDerivation, untracked, IDerivationState } from "./core/derivation"
 export { IAtom, createAtom } from "./core/atom"
 
-export { IAction } from "./core/action"
-export { spy } from "./core/spy"
+export { IAction, IActionCall, IActionMiddleware, addActionMiddleware } from "./core/action"
+export { spy, SpyEvent } from "./core/spy"
+export {
+    IRecomputeStats,
+    getRecomputeStats,
+    resetRecomputeStats
+} from "./core/recomputestats"
 export { IComputedValue } from "./core/computedvalue"
 
 export { IEqualsComparer, comparer } from "./utils/comparer"
@@ -84,10 +89,19 @@ export {
     isObservableMap,
     IObservableMapInitialValues
 } from "./types/observablemap"
+export {
+    ObservableSet,
+    ISetWillChange,
+    ISetDidChange,
+    isObservableSet,
+    IObservableSetInitialValues
+} from "./types/observableset"
 
 export { transaction } from "./api/transaction"
 export { observable, IObservableFactory, IObservableFactories } from "./api/observable"
 export { computed, IComputed } from "./api/computed"
+export { computedFn, IComputedFnOptions } from "./api/computedfn"
+export { createTransformer, ITransformer } from "./api/createtransformer"
 export { isObservable, isObservableProp } from "./api/isobservable"
 export { isComputed, isComputedProp } from "./api/iscomputed"
 export { extendObservable, extendShallowObservable } from "./api/extendobservable"
@@ -96,25 +110,70 @@ export { intercept } from "./api/intercept"
 export { autorun, reaction, IReactionOptions } from "./api/autorun"
 export { when, IWhenOptions } from "./api/when"
 
-export { action, isAction, runInAction, IActionFactory } from "./api/action"
+export { action, isAction, runInAction, runInAtomicAction, IActionFactory } from "./api/action"
 export { keys, values, set, remove, has, get } from "./api/object-api"
 export { decorate } from "./api/decorate"
 export { configure } from "./api/configure"
 export { onBecomeObserved, onBecomeUnobserved } from "./api/become-observed"
-export { flow } from "./api/flow"
+export {
+    flow,
+    getFlowSignal,
+    IFlowOptions,
+    IFlowFunction,
+    IFlowFactory,
+    IFlowStatus,
+    ITrackedFlowFunction,
+    FlowConcurrency,
+    CancellablePromise
+} from "./api/flow"
 
 export { toJS } from "./api/tojs"
+export { deepObserve, IDeepChange } from "./api/deepobserve"
+export { getSnapshot, applyPatch, onPatch, IJsonPatch } from "./api/patch"
+export { createUndoManager, IUndoManager } from "./api/undomanager"
+export { createLogger, ILoggerOptions, ILogSink, LoggedEventType } from "./api/logger"
+export {
+    startProfiling,
+    stopProfiling,
+    IProfileReport,
+    IProfileEntry,
+    IChromeTraceEvent,
+    ProfiledEventType
+} from "./api/profiler"
+export { optimistic, IOptimisticUpdate, OptimisticUpdateState } from "./api/optimistic"
 export { trace } from "./api/trace"
+export {
+    getActiveReactions,
+    reportLeaks,
+    IActiveReaction,
+    IReportLeaksOptions
+} from "./api/leaks"
 
-export { IObserverTree, IDependencyTree, getDependencyTree, getObserverTree } from "./api/extras"
+export {
+    IObserverTree,
+    IDependencyTree,
+    getDependencyTree,
+    getObserverTree,
+    getDerivationInfo,
+    IDerivationInfo,
+    DerivationStateName,
+    exportDependencyGraph,
+    IDependencyGraph,
+    IDependencyGraphNode,
+    IDependencyGraphEdge,
+    DependencyGraphNodeKind
+} from "./api/extras"
 
 export {
     resetGlobalState as _resetGlobalState,
-    getGlobalState as _getGlobalState
+    getGlobalState as _getGlobalState,
+    createReactiveContext,
+    runInContext,
+    IReactiveContext
 } from "./core/globalstate"
 export { getDebugName, getAtom, getAdministration as _getAdministration } from "./types/type-utils"
 export { allowStateChanges as _allowStateChanges } from "./core/action"
-export { Lambda, isArrayLike } from "./utils/utils"
+export { Lambda, IAbortSignal, isArrayLike } from "./utils/utils"
 export { isComputingDerivation as _isComputingDerivation } from "./core/derivation"
 export { onReactionError } from "./core/reaction"
 export { interceptReads as _interceptReads } from "./api/intercept-read"
@@ -169,7 +228,6 @@ if (
         "asReference",
         "asStructure",
         "autorunAsync",
-        "createTranformer",
         "expr",
         "isModifierDescriptor",
         "isStrictModeEnabled",
@@ -180,6 +238,10 @@ if (
         Object.defineProperty(module.exports, prop, {
             enumerable: false,
             get() {
+                if (prop === "whyRun")
+                    fail(
+                        `'whyRun' is no longer part of the public MobX api. Use 'trace()' inside a reaction or computed value to log why it runs`
+                    )
                 fail(
                     `'${prop}' is no longer part of the public MobX api. Please consult the changelog to find out where this functionality went`
                 )
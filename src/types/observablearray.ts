@@ -8,8 +8,10 @@ import {
     addHiddenFinalProp,
     addHiddenProp,
     invariant,
-    deprecated
+    deprecated,
+    fail
 } from "../utils/utils"
+import { comparer } from "../utils/comparer"
 import { Atom, IAtom } from "../core/atom"
 import { checkIfStateModificationsAreAllowed } from "../core/derivation"
 import {
@@ -20,6 +22,8 @@ import {
     interceptChange
 } from "./intercept-utils"
 import { IListenable, registerListener, hasListeners, notifyListeners } from "./listen-utils"
+import { isRecordingChanges, recordChange } from "./record-utils"
+import { allowStateChanges } from "../core/action"
 import { isSpyEnabled, spyReportStart, spyReportEnd } from "../core/spy"
 import { declareIterator, makeIterable } from "../utils/iterable"
 import { IEnhancer } from "./modifiers"
@@ -256,12 +260,54 @@ class ObservableArrayAdministration<T>
 
         newItems =
             newItems.length === 0 ? newItems : <T[]>newItems.map(v => this.enhancer(v, undefined))
+        return this.dehanceValues(this.spliceValues(index, deleteCount, newItems))
+    }
+
+    /**
+     * Splices already intercepted and enhanced values, without dehancing the removed values.
+     * Also used to revert changes of atomic actions
+     */
+    spliceValues(index: number, deleteCount: number, newItems: T[]): T[] {
         const lengthDelta = newItems.length - deleteCount
-        this.updateArrayLength(length, lengthDelta) // create or remove new entries
+        this.updateArrayLength(this.values.length, lengthDelta) // create or remove new entries
         const res = this.spliceItemsIntoValues(index, deleteCount, newItems)
+        if (deleteCount !== 0 || newItems.length !== 0) {
+            if (isRecordingChanges()) {
+                recordChange(() => {
+                    this.assertUnchangedSince(index, newItems)
+                    this.spliceValues(index, newItems.length, res)
+                })
+            }
+            this.notifyArraySplice(index, newItems, res)
+        }
+        return res
+    }
+
+    /**
+     * Updates an already intercepted and enhanced value. Also used to revert changes of atomic actions
+     */
+    setValue(index: number, newValue: T) {
+        const oldValue = this.values[index]
+        this.values[index] = newValue
+        if (isRecordingChanges())
+            recordChange(() => {
+                this.assertUnchangedSince(index, [newValue])
+                this.setValue(index, oldValue)
+            })
+        this.notifyArrayChildUpdate(index, newValue, oldValue)
+    }
 
-        if (deleteCount !== 0 || newItems.length !== 0) this.notifyArraySplice(index, newItems, res)
-        return this.dehanceValues(res)
+    // changes are reverted by position, which is only correct if the array wasn't changed there since
+    private assertUnchangedSince(index: number, values: T[]) {
+        for (let i = 0; i < values.length; i++)
+            if (
+                this.values.length <= index + i ||
+                !comparer.default(this.values[index + i], values[i])
+            )
+                fail(
+                    process.env.NODE_ENV !== "production" &&
+                        `Cannot revert the changes to '${this.atom.name}', it was changed at index ${index + i} after they were made`
+                )
     }
 
     spliceItemsIntoValues(index, deleteCount, newItems: T[]): T[] {
@@ -281,7 +327,7 @@ class ObservableArrayAdministration<T>
         const notify = hasListeners(this)
         const change =
             notify || notifySpy
-                ? {
+                ? <IArrayChange>{
                       object: this.array,
                       type: "update",
                       index,
@@ -290,10 +336,13 @@ class ObservableArrayAdministration<T>
                   }
                 : null
 
-        if (notifySpy) spyReportStart({ ...change, name: this.atom.name })
-        this.atom.reportChanged()
-        if (notify) notifyListeners(this, change)
-        if (notifySpy) spyReportEnd()
+        if (notifySpy) spyReportStart({ ...change!, name: this.atom.name })
+        try {
+            this.atom.reportChanged()
+            if (notify) notifyListeners(this, change)
+        } finally {
+            if (notifySpy) spyReportEnd()
+        }
     }
 
     notifyArraySplice<T>(index: number, added: T[], removed: T[]) {
@@ -301,7 +350,7 @@ class ObservableArrayAdministration<T>
         const notify = hasListeners(this)
         const change =
             notify || notifySpy
-                ? {
+                ? <IArraySplice>{
                       object: this.array,
                       type: "splice",
                       index,
@@ -312,11 +361,14 @@ class ObservableArrayAdministration<T>
                   }
                 : null
 
-        if (notifySpy) spyReportStart({ ...change, name: this.atom.name })
-        this.atom.reportChanged()
-        // conform: https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/observe
-        if (notify) notifyListeners(this, change)
-        if (notifySpy) spyReportEnd()
+        if (notifySpy) spyReportStart({ ...change!, name: this.atom.name })
+        try {
+            this.atom.reportChanged()
+            // conform: https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Array/observe
+            if (notify) notifyListeners(this, change)
+        } finally {
+            if (notifySpy) spyReportEnd()
+        }
     }
 }
 
@@ -335,7 +387,7 @@ export class ObservableArray<T> extends StubArray {
         addHiddenFinalProp(this, "$mobx", adm)
 
         if (initialValues && initialValues.length) {
-            this.spliceWithArray(0, 0, initialValues)
+            allowStateChanges(true, () => this.spliceWithArray(0, 0, initialValues))
         }
 
         if (safariPrototypeSetterInheritanceBug) {
@@ -562,10 +614,7 @@ export class ObservableArray<T> extends StubArray {
             }
             newValue = adm.enhancer(newValue, oldValue)
             const changed = newValue !== oldValue
-            if (changed) {
-                values[index] = newValue
-                adm.notifyArrayChildUpdate(index, newValue, oldValue)
-            }
+            if (changed) adm.setValue(index, newValue)
         } else if (index === values.length) {
             // add a new item
             adm.spliceWithArray(index, 0, [newValue])
@@ -21,6 +21,8 @@ import {
     interceptChange
 } from "./intercept-utils"
 import { IListenable, registerListener, hasListeners, notifyListeners } from "./listen-utils"
+import { isRecordingChanges, recordChange } from "./record-utils"
+import { allowStateChanges } from "../core/action"
 import { isSpyEnabled, spyReportStart, spyReportEnd } from "../core/spy"
 import { declareIterator, iteratorSymbol, makeIterable } from "../utils/iterable"
 import { transaction } from "../api/transaction"
@@ -97,7 +99,7 @@ export class ObservableMap<K = any, V = any>
         }
         this._data = new Map()
         this._hasMap = new Map()
-        this.merge(initialData)
+        allowStateChanges(true, () => this.merge(initialData))
     }
 
     private _has(key: K): boolean {
@@ -139,19 +141,31 @@ export class ObservableMap<K = any, V = any>
             if (!change) return false
         }
         if (this._has(key)) {
-            const notifySpy = isSpyEnabled()
-            const notify = hasListeners(this)
-            const change =
-                notify || notifySpy
-                    ? <IMapDidChange<K, V>>{
-                          type: "delete",
-                          object: this,
-                          oldValue: (<any>this._data.get(key)).value,
-                          name: key
-                      }
-                    : null
-
-            if (notifySpy) spyReportStart({ ...change, name: this.name, key })
+            this._deleteValue(key)
+            return true
+        }
+        return false
+    }
+
+    // Deletes without intercepting, also used to revert changes of atomic actions
+    private _deleteValue(key: K) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const oldValue = (<any>this._data.get(key)).value
+        const change =
+            notify || notifySpy
+                ? <IMapDidChange<K, V>>{
+                      type: "delete",
+                      object: this,
+                      oldValue,
+                      name: key
+                  }
+                : null
+
+        if (notifySpy) spyReportStart({ ...change!, name: this.name, key })
+        try {
+            // recorded before updating the keys, so that the keys are restored first when reverting
+            if (isRecordingChanges()) recordChange(() => this._addValue(key, oldValue, false))
             transaction(() => {
                 this._keys.remove(key)
                 this._updateHasMapEntry(key, false)
@@ -160,10 +174,9 @@ export class ObservableMap<K = any, V = any>
                 this._data.delete(key)
             })
             if (notify) notifyListeners(this, change)
+        } finally {
             if (notifySpy) spyReportEnd()
-            return true
         }
-        return false
     }
 
     private _updateHasMapEntry(key: K, value: boolean): ObservableValue<boolean> {
@@ -181,38 +194,51 @@ export class ObservableMap<K = any, V = any>
     private _updateValue(key: K, newValue: V | undefined) {
         const observable = this._data.get(key)!
         newValue = (observable as any).prepareNewValue(newValue) as V
-        if (newValue !== UNCHANGED) {
-            const notifySpy = isSpyEnabled()
-            const notify = hasListeners(this)
-            const change =
-                notify || notifySpy
-                    ? <IMapDidChange<K, V>>{
-                          type: "update",
-                          object: this,
-                          oldValue: (observable as any).value,
-                          name: key,
-                          newValue
-                      }
-                    : null
-            if (notifySpy) spyReportStart({ ...change, name: this.name, key })
-            observable.setNewValue(newValue as V)
+        if (newValue !== UNCHANGED) this._writeValue(key, newValue)
+    }
+
+    // Writes an already intercepted and enhanced value, also used to revert changes of atomic actions
+    private _writeValue(key: K, newValue: V) {
+        const observable = this._data.get(key)!
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const oldValue = (observable as any).value
+        const change =
+            notify || notifySpy
+                ? <IMapDidChange<K, V>>{
+                      type: "update",
+                      object: this,
+                      oldValue,
+                      name: key,
+                      newValue
+                  }
+                : null
+        if (notifySpy) spyReportStart({ ...change!, name: this.name, key })
+        try {
+            observable.setNewValue(newValue)
+            if (isRecordingChanges()) recordChange(() => this._writeValue(key, oldValue))
             if (notify) notifyListeners(this, change)
+        } finally {
             if (notifySpy) spyReportEnd()
         }
     }
 
-    private _addValue(key: K, newValue: V) {
+    private _addValue(key: K, newValue: V, enhance = true) {
+        // recorded before updating the keys, so that the keys are restored first when reverting
+        if (isRecordingChanges()) recordChange(() => this._deleteValue(key))
         transaction(() => {
             const observable = new ObservableValue(
                 newValue,
-                this.enhancer,
+                enhance ? this.enhancer : referenceEnhancer,
                 `${this.name}.${key}`,
                 false
             )
+            // a restored value is already enhanced, but later updates should be enhanced again
+            if (!enhance) observable.enhancer = this.enhancer
             this._data.set(key, observable)
             newValue = (observable as any).value // value might have been changed
             this._updateHasMapEntry(key, true)
-            this._keys.push(key)
+            if (enhance || this._keys.indexOf(key) === -1) this._keys.push(key)
         })
         const notifySpy = isSpyEnabled()
         const notify = hasListeners(this)
@@ -225,9 +251,12 @@ export class ObservableMap<K = any, V = any>
                       newValue
                   }
                 : null
-        if (notifySpy) spyReportStart({ ...change, name: this.name, key })
-        if (notify) notifyListeners(this, change)
-        if (notifySpy) spyReportEnd()
+        if (notifySpy) spyReportStart({ ...change!, name: this.name, key })
+        try {
+            if (notify) notifyListeners(this, change)
+        } finally {
+            if (notifySpy) spyReportEnd()
+        }
     }
 
     get(key: K): V | undefined {
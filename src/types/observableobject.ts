@@ -18,6 +18,7 @@ import {
     interceptChange
 } from "./intercept-utils"
 import { IListenable, registerListener, hasListeners, notifyListeners } from "./listen-utils"
+import { isRecordingChanges, recordChange } from "./record-utils"
 import { isSpyEnabled, spyReportStart, spyReportEnd } from "../core/spy"
 import { IEnhancer, referenceEnhancer, deepEnhancer } from "./modifiers"
 import { ObservableArray, IObservableArray } from "./observablearray"
@@ -103,65 +104,98 @@ export class ObservableObjectAdministration
             newValue = (change as any).newValue
         }
         newValue = (observable as any).prepareNewValue(newValue)
+        if (newValue !== UNCHANGED) this.writeValue(key, newValue)
+    }
 
-        // notify spy & observers
-        if (newValue !== UNCHANGED) {
-            const notify = hasListeners(this)
-            const notifySpy = isSpyEnabled()
-            const change =
-                notify || notifySpy
-                    ? {
-                          type: "update",
-                          object: instance,
-                          oldValue: (observable as any).value,
-                          name: key,
-                          newValue
-                      }
-                    : null
+    /**
+     * Writes an already intercepted and enhanced value. Also used to revert changes of atomic actions
+     */
+    writeValue(key: string, newValue) {
+        const observable = this.values[key] as ObservableValue<any>
+        const notify = hasListeners(this)
+        const notifySpy = isSpyEnabled()
+        const oldValue = (observable as any).value
+        const change =
+            notify || notifySpy
+                ? <IObjectDidChange>{
+                      type: "update",
+                      object: this.target,
+                      oldValue,
+                      name: key,
+                      newValue
+                  }
+                : null
 
-            if (notifySpy) spyReportStart({ ...change, name: this.name, key })
-            ;(observable as ObservableValue<any>).setNewValue(newValue)
+        if (notifySpy) spyReportStart({ ...change!, name: this.name, key })
+        try {
+            observable.setNewValue(newValue)
+            if (isRecordingChanges()) recordChange(() => this.writeValue(key, oldValue))
             if (notify) notifyListeners(this, change)
+        } finally {
             if (notifySpy) spyReportEnd()
         }
     }
 
     remove(key: string) {
         if (!this.values[key]) return
-        const { target } = this
         if (hasInterceptors(this)) {
             const change = interceptChange<IObjectWillChange>(this, {
-                object: target,
+                object: this.target,
                 name: key,
                 type: "remove"
             })
             if (!change) return
         }
+        this.removeValue(key)
+    }
+
+    /**
+     * Removes a property without intercepting. Also used to revert changes of atomic actions
+     */
+    removeValue(key: string) {
+        const { target } = this
         try {
             startBatch()
             const notify = hasListeners(this)
             const notifySpy = isSpyEnabled()
-            const oldValue = this.values[key].get()
+            const observable = this.values[key]
+            const oldValue = observable.get()
+            // recorded before updating the keys, so that the keys are restored first when reverting
+            if (isRecordingChanges() && observable instanceof ObservableValue)
+                recordChange(() => this.restoreValue(key, observable))
             if (this.keys) this.keys.remove(key)
             delete this.values[key]
             delete this.target[key]
             const change =
                 notify || notifySpy
-                    ? {
+                    ? <IObjectDidChange>{
                           type: "remove",
                           object: target,
                           oldValue: oldValue,
                           name: key
                       }
                     : null
-            if (notifySpy) spyReportStart({ ...change, name: this.name, key })
-            if (notify) notifyListeners(this, change)
-            if (notifySpy) spyReportEnd()
+            if (notifySpy) spyReportStart({ ...change!, name: this.name, key })
+            try {
+                if (notify) notifyListeners(this, change)
+            } finally {
+                if (notifySpy) spyReportEnd()
+            }
         } finally {
             endBatch()
         }
     }
 
+    /**
+     * Puts back a removed property, used to revert changes of atomic actions
+     */
+    restoreValue(key: string, observable: ObservableValue<any>) {
+        this.values[key] = observable
+        Object.defineProperty(this.target, key, generateObservablePropConfig(key))
+        if (this.keys && this.keys.indexOf(key) === -1) this.keys.push(key)
+        notifyPropertyAddition(this, this.target, key, (observable as any).value)
+    }
+
     illegalAccess(owner, propName) {
         /**
          * This happens if a property is accessed through the prototype chain, but the property was
@@ -283,6 +317,8 @@ export function defineObservableProperty(
 
     //把属性挂载上
     Object.defineProperty(target, propName, generateObservablePropConfig(propName))
+    // recorded before updating the keys, so that the keys are restored first when reverting
+    if (isRecordingChanges()) recordChange(() => adm.removeValue(propName))
     if (adm.keys) adm.keys.push(propName)
     notifyPropertyAddition(adm, target, propName, newValue)
 }
@@ -358,7 +394,7 @@ function notifyPropertyAddition(
     const notifySpy = isSpyEnabled()
     const change =
         notify || notifySpy
-            ? {
+            ? <IObjectDidChange>{
                   type: "add",
                   object,
                   name: key,
@@ -366,9 +402,12 @@ function notifyPropertyAddition(
               }
             : null
 
-    if (notifySpy) spyReportStart({ ...change, name: adm.name, key })
-    if (notify) notifyListeners(adm, change)
-    if (notifySpy) spyReportEnd()
+    if (notifySpy) spyReportStart({ ...change!, name: adm.name, key })
+    try {
+        if (notify) notifyListeners(adm, change)
+    } finally {
+        if (notifySpy) spyReportEnd()
+    }
 }
 
 const isObservableObjectAdministration = createInstanceofPredicate(
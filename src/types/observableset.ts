@@ -0,0 +1,308 @@
+import { IEnhancer, deepEnhancer } from "./modifiers"
+import { IAtom, createAtom } from "../core/atom"
+import { checkIfStateModificationsAreAllowed } from "../core/derivation"
+import { allowStateChanges } from "../core/action"
+import {
+    createInstanceofPredicate,
+    getNextId,
+    Lambda,
+    invariant,
+    isES6Set,
+    iteratorToArray,
+    fail,
+    addHiddenFinalProp,
+    isObject
+} from "../utils/utils"
+import {
+    IInterceptable,
+    IInterceptor,
+    hasInterceptors,
+    registerInterceptor,
+    interceptChange
+} from "./intercept-utils"
+import { IListenable, registerListener, hasListeners, notifyListeners } from "./listen-utils"
+import { isRecordingChanges, recordChange } from "./record-utils"
+import { isSpyEnabled, spyReportStart, spyReportEnd } from "../core/spy"
+import { declareIterator, makeIterable } from "../utils/iterable"
+import { transaction } from "../api/transaction"
+
+export type IObservableSetInitialValues<T> = Set<T> | ReadonlyArray<T>
+
+export type ISetDidChange<T = any> =
+    | {
+          object: ObservableSet<T>
+          type: "add"
+          newValue: T
+      }
+    | {
+          object: ObservableSet<T>
+          type: "delete"
+          oldValue: T
+      }
+
+export type ISetWillChange<T = any> =
+    | {
+          object: ObservableSet<T>
+          type: "add"
+          newValue: T
+      }
+    | {
+          object: ObservableSet<T>
+          type: "delete"
+          oldValue: T
+      }
+
+const ObservableSetMarker = {}
+
+/**
+ * Like other observable collections, plain objects, arrays and maps are added as (deep) observable copies,
+ * unless the set was created with `{ deep: false }`. `has` and `delete` accept both the original and the copy.
+ */
+export class ObservableSet<T = any> implements Set<T>, IInterceptable<ISetWillChange>, IListenable {
+    $mobx = ObservableSetMarker
+    private _data: Set<any>
+    private _atom: IAtom
+    // the observable copies of added plain objects, arrays and maps, by original value
+    private _copies = new WeakMap<any, any>()
+    interceptors
+    changeListeners
+    dehancer: any;
+    [Symbol.iterator];
+    [Symbol.toStringTag]
+
+    constructor(
+        initialData?: IObservableSetInitialValues<T>,
+        public enhancer: IEnhancer<T> = deepEnhancer,
+        public name = "ObservableSet@" + getNextId()
+    ) {
+        if (typeof Set !== "function") {
+            throw new Error(
+                "mobx.set requires Set polyfill for the current browser. Check babel-polyfill or core-js/es6/set.js"
+            )
+        }
+        this._data = new Set()
+        this._atom = createAtom(this.name)
+        if (initialData) allowStateChanges(true, () => this.replace(initialData))
+    }
+
+    private dehanceValue<X extends T | undefined>(value: X): X {
+        if (this.dehancer !== undefined) {
+            return this.dehancer(value)
+        }
+        return value
+    }
+
+    clear() {
+        transaction(() => {
+            iteratorToArray(this._data.values()).forEach(value => this.delete(value))
+        })
+    }
+
+    forEach(callbackFn: (value: T, value2: T, set: Set<T>) => void, thisArg?: any) {
+        this._atom.reportObserved()
+        this._data.forEach(value => {
+            const dehanced = this.dehanceValue(value)
+            callbackFn.call(thisArg, dehanced, dehanced, this)
+        })
+    }
+
+    get size() {
+        this._atom.reportObserved()
+        return this._data.size
+    }
+
+    add(value: T) {
+        checkIfStateModificationsAreAllowed(this._atom)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<ISetWillChange<T>>(this, {
+                type: "add",
+                object: this,
+                newValue: value
+            })
+            if (!change) return this
+            value = (change as any).newValue
+        }
+        if (this._data.has(this._storedValue(value))) return this
+        const newValue = this.enhancer(value, undefined, this.name)
+        if (newValue !== value && isObject(value)) this._copies.set(value, newValue)
+        this._addValue(newValue)
+        return this
+    }
+
+    // returns the value that is stored for the given value, which is its observable copy if one was made
+    private _storedValue(value: any): any {
+        if (this._data.has(value) || !isObject(value)) return value
+        const copy = this._copies.get(value)
+        return copy !== undefined ? copy : value
+    }
+
+    // Adds an already intercepted and enhanced value, also used to revert changes of atomic actions
+    private _addValue(newValue: T) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const change =
+            notify || notifySpy
+                ? <ISetDidChange<T>>{
+                      type: "add",
+                      object: this,
+                      newValue
+                  }
+                : null
+        if (notifySpy) spyReportStart({ ...change!, name: this.name })
+        try {
+            this._data.add(newValue)
+            this._atom.reportChanged()
+            if (isRecordingChanges()) recordChange(() => this._deleteValue(newValue))
+            if (notify) notifyListeners(this, change)
+        } finally {
+            if (notifySpy) spyReportEnd()
+        }
+    }
+
+    delete(value: T): boolean {
+        checkIfStateModificationsAreAllowed(this._atom)
+        if (hasInterceptors(this)) {
+            const change = interceptChange<ISetWillChange<T>>(this, {
+                type: "delete",
+                object: this,
+                oldValue: value
+            })
+            if (!change) return false
+        }
+        value = this._storedValue(value)
+        if (this._data.has(value)) {
+            this._deleteValue(value)
+            return true
+        }
+        return false
+    }
+
+    // Deletes without intercepting, also used to revert changes of atomic actions
+    private _deleteValue(value: T) {
+        const notifySpy = isSpyEnabled()
+        const notify = hasListeners(this)
+        const change =
+            notify || notifySpy
+                ? <ISetDidChange<T>>{
+                      type: "delete",
+                      object: this,
+                      oldValue: value
+                  }
+                : null
+        if (notifySpy) spyReportStart({ ...change!, name: this.name })
+        try {
+            this._data.delete(value)
+            this._atom.reportChanged()
+            if (isRecordingChanges()) recordChange(() => this._addValue(value))
+            if (notify) notifyListeners(this, change)
+        } finally {
+            if (notifySpy) spyReportEnd()
+        }
+    }
+
+    has(value: any): boolean {
+        this._atom.reportObserved()
+        return this._data.has(this._storedValue(value))
+    }
+
+    entries(): IterableIterator<[T, T]> {
+        let nextIndex = 0
+        const values = this.toArray()
+        return makeIterable({
+            next() {
+                const index = nextIndex
+                nextIndex += 1
+                return index < values.length
+                    ? { value: [values[index], values[index]] as [T, T], done: false }
+                    : { value: undefined as any, done: true }
+            }
+        })
+    }
+
+    keys(): IterableIterator<T> {
+        return this.values()
+    }
+
+    values(): IterableIterator<T> {
+        let nextIndex = 0
+        const values = this.toArray()
+        return makeIterable({
+            next() {
+                return nextIndex < values.length
+                    ? { value: values[nextIndex++], done: false }
+                    : { value: undefined as any, done: true }
+            }
+        })
+    }
+
+    replace(other: ObservableSet<T> | IObservableSetInitialValues<T>): ObservableSet<T> {
+        if (isObservableSet(other)) {
+            other = other.toJS()
+        }
+        transaction(() => {
+            if (Array.isArray(other)) {
+                this.clear()
+                other.forEach(value => this.add(value))
+            } else if (isES6Set(other)) {
+                this.clear()
+                ;(other as Set<T>).forEach(value => this.add(value))
+            } else if (other !== null && other !== undefined) {
+                fail("Cannot initialize set from " + other)
+            }
+        })
+        return this
+    }
+
+    /**
+	 * Returns a shallow non observable Set clone of this set.
+	 * Note that the values migth still be observable. For a deep clone use mobx.toJS.
+	 */
+    toJS(): Set<T> {
+        return new Set(this.toArray())
+    }
+
+    toJSON(): T[] {
+        // Used by JSON.stringify
+        return this.toArray()
+    }
+
+    toString(): string {
+        return this.name + "[ " + this.toArray().join(", ") + " ]"
+    }
+
+    /**
+	 * Observes this set. Triggers for the events 'add' and 'delete'.
+	 */
+    observe(listener: (changes: ISetDidChange<T>) => void, fireImmediately?: boolean): Lambda {
+        process.env.NODE_ENV !== "production" &&
+            invariant(
+                fireImmediately !== true,
+                "`observe` doesn't support fireImmediately=true in combination with sets."
+            )
+        return registerListener(this, listener)
+    }
+
+    intercept(handler: IInterceptor<ISetWillChange<T>>): Lambda {
+        return registerInterceptor(this, handler)
+    }
+
+    private toArray(): T[] {
+        this._atom.reportObserved()
+        return iteratorToArray(this._data.values()).map(value => this.dehanceValue(value))
+    }
+}
+
+declareIterator(ObservableSet.prototype, function() {
+    return this.values()
+})
+
+addHiddenFinalProp(
+    ObservableSet.prototype,
+    typeof Symbol !== "undefined" ? Symbol.toStringTag : "@@toStringTag" as any,
+    "Set"
+)
+
+/* 'var' fixes small-build issue */
+export var isObservableSet = createInstanceofPredicate("ObservableSet", ObservableSet) as (
+    thing: any
+) => thing is ObservableSet<any>
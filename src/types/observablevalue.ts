@@ -1,5 +1,6 @@
 import { Atom, declareAtom } from "../core/atom"
 import { checkIfStateModificationsAreAllowed } from "../core/derivation"
+import { startBatch, endBatch, propagateChanged } from "../core/observable"
 import {
     Lambda,
     getNextId,
@@ -17,6 +18,8 @@ import {
 import { IListenable, registerListener, hasListeners, notifyListeners } from "./listen-utils"
 import { isSpyEnabled, spyReportStart, spyReportEnd, spyReport } from "../core/spy"
 import { IEnhancer } from "./modifiers"
+import { isRecordingChanges, recordChange } from "./record-utils"
+import { globalState, withGlobalState, checkCrossContextChange } from "../core/globalstate"
 
 export interface IValueWillChange<T> {
     object: any
@@ -59,7 +62,7 @@ export class ObservableValue<T> extends Atom
         this.value = enhancer(value, undefined, name)
         if (notifySpy && isSpyEnabled()) {
             // only notify spy if this is a stand-alone observable
-            spyReport({ type: "create", name: this.name, newValue: "" + this.value })
+            spyReport({ type: "create", name: this.name, object: this, newValue: "" + this.value })
         }
     }
 
@@ -77,12 +80,17 @@ export class ObservableValue<T> extends Atom
                 spyReportStart({
                     type: "update",
                     name: this.name,
+                    object: this,
                     newValue,
                     oldValue
                 })
             }
-            this.setNewValue(newValue)
-            if (notifySpy) spyReportEnd()
+            try {
+                this.setNewValue(newValue)
+                if (isRecordingChanges()) recordChange(() => this.setNewValue(oldValue))
+            } finally {
+                if (notifySpy) spyReportEnd()
+            }
         }
     }
 
@@ -103,9 +111,15 @@ export class ObservableValue<T> extends Atom
     }
 
     setNewValue(newValue: T) {
+        if (this.reactiveContext !== globalState) {
+            checkCrossContextChange(this.name)
+            return withGlobalState(this.reactiveContext, () => this.setNewValue(newValue))
+        }
         const oldValue = this.value
         this.value = newValue
-        this.reportChanged()
+        startBatch()
+        propagateChanged(this, true, oldValue, newValue)
+        endBatch()
         if (hasListeners(this)) {
             notifyListeners(this, {
                 type: "update",
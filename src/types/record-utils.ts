@@ -0,0 +1,57 @@
+import { Lambda, invariant } from "../utils/utils"
+import { globalState } from "../core/globalstate"
+
+/**
+ * A change recorder collects, for every change made while it is active, a function that reverts that change.
+ * Only the innermost recorder receives changes.
+ */
+export type IChangeRecorder = Lambda[]
+
+export function isRecordingChanges() {
+    return globalState.changeRecorders.length > 0
+}
+
+export function recordChange(revert: Lambda) {
+    const recorders = globalState.changeRecorders
+    recorders[recorders.length - 1].push(revert)
+}
+
+export function startRecordingChanges(): IChangeRecorder {
+    const recorder: IChangeRecorder = []
+    globalState.changeRecorders.push(recorder)
+    return recorder
+}
+
+/**
+ * Stops the recorder. If the changes are kept, they become part of the enclosing recorder (if any),
+ * so that they can still be reverted if the enclosing atomic action fails.
+ */
+export function endRecordingChanges(recorder: IChangeRecorder, keepChanges: boolean) {
+    const recorders = globalState.changeRecorders
+    invariant(
+        recorders[recorders.length - 1] === recorder,
+        "Change recorders should be ended in the same order as they were started"
+    )
+    recorders.pop()
+    if (keepChanges && recorders.length > 0) recorders[recorders.length - 1].push(...recorder)
+}
+
+/**
+ * Reverts all recorded changes, last change first.
+ * Reverting is not recorded by enclosing recorders, as those never saw the original changes.
+ * If a change can't be reverted (and throws), the changes that were already reverted are restored before rethrowing.
+ */
+export function revertChanges(recorder: IChangeRecorder) {
+    const recorders = globalState.changeRecorders
+    const reverted: IChangeRecorder = []
+    globalState.changeRecorders = [reverted]
+    try {
+        for (let i = recorder.length - 1; i >= 0; i--) recorder[i]()
+    } catch (e) {
+        globalState.changeRecorders = []
+        for (let i = reverted.length - 1; i >= 0; i--) reverted[i]()
+        throw e
+    } finally {
+        globalState.changeRecorders = recorders
+    }
+}
@@ -6,6 +6,7 @@ import { isComputedValue } from "../core/computedvalue"
 import { isReaction } from "../core/reaction"
 import { isObservableArray } from "./observablearray"
 import { isObservableMap } from "./observablemap"
+import { isObservableSet } from "./observableset"
 import { isObservableObject } from "./observableobject"
 
 export function getAtom(thing: any, property?: string): IDepTreeNode {
@@ -18,6 +19,14 @@ export function getAtom(thing: any, property?: string): IDepTreeNode {
                 )
             return (thing as any).$mobx.atom
         }
+        if (isObservableSet(thing)) {
+            if (property !== undefined)
+                fail(
+                    process.env.NODE_ENV !== "production" &&
+                        "It is not possible to get value atoms from sets"
+                )
+            return (thing as any)._atom
+        }
         if (isObservableMap(thing)) {
             const anyThing = thing as any
             if (property === undefined) return getAtom(anyThing._keys)
@@ -63,7 +72,7 @@ export function getAdministration(thing: any, property?: string) {
     if (!thing) fail("Expecting some object")
     if (property !== undefined) return getAdministration(getAtom(thing, property))
     if (isAtom(thing) || isComputedValue(thing) || isReaction(thing)) return thing
-    if (isObservableMap(thing)) return thing
+    if (isObservableMap(thing) || isObservableSet(thing)) return thing
     // Initializers run lazily when transpiling to babel, so make sure they are run...
     initializeInstance(thing)
     if (thing.$mobx) return thing.$mobx
@@ -73,7 +82,8 @@ export function getAdministration(thing: any, property?: string) {
 export function getDebugName(thing: any, property?: string): string {
     let named
     if (property !== undefined) named = getAtom(thing, property)
-    else if (isObservableObject(thing) || isObservableMap(thing)) named = getAdministration(thing)
+    else if (isObservableObject(thing) || isObservableMap(thing) || isObservableSet(thing))
+        named = getAdministration(thing)
     else named = getAtom(thing) // valid for arrays as well
     return named.name
 }
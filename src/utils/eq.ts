@@ -1,5 +1,5 @@
-import { isES6Map, iteratorToArray } from "./utils"
-import { isObservableArray, isObservableMap } from "../mobx"
+import { isES6Map, isES6Set, iteratorToArray } from "./utils"
+import { isObservableArray, isObservableMap, isObservableSet } from "../mobx"
 
 declare var Symbol
 const toString = Object.prototype.toString
@@ -128,6 +128,7 @@ function deepEq(a: any, b: any, aStack?: any[], bStack?: any[]) {
 function unwrap(a: any) {
     if (isObservableArray(a)) return a.peek()
     if (isES6Map(a) || isObservableMap(a)) return iteratorToArray(a.entries())
+    if (isES6Set(a) || isObservableSet(a)) return iteratorToArray(a.values())
     return a
 }
 
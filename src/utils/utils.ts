@@ -18,6 +18,23 @@ export interface Lambda {
     name?: string
 }
 
+/**
+ * The subset of the DOM `AbortSignal` interface that is used by MobX
+ */
+export interface IAbortSignal {
+    readonly aborted: boolean
+    addEventListener(type: "abort", listener: () => void): void
+    removeEventListener(type: "abort", listener: () => void): void
+}
+
+/**
+ * Returns a high resolution timestamp in milliseconds, if supported by the environment
+ */
+export function now(): number {
+    const performance = getGlobal().performance
+    return performance && typeof performance.now === "function" ? performance.now() : Date.now()
+}
+
 export function getNextId() {
     return ++globalState.mobxGuid
 }
@@ -154,6 +171,11 @@ export function isES6Map(thing): boolean {
     return false
 }
 
+export function isES6Set(thing): boolean {
+    if (getGlobal().Set !== undefined && thing instanceof getGlobal().Set) return true
+    return false
+}
+
 export function getMapLikeKeys<K, V>(map: ObservableMap<K, V>): ReadonlyArray<K>
 export function getMapLikeKeys<V>(map: IKeyValueMap<V> | any): ReadonlyArray<string>
 export function getMapLikeKeys(map: any): any {
@@ -182,6 +204,17 @@ export function toPrimitive(value) {
     return value === null ? null : typeof value === "object" ? "" + value : value
 }
 
+/**
+ * Converts a value to a string for debug names, also if it can't be converted to a primitive
+ */
+export function toDebugString(value: any): string {
+    try {
+        return String(value)
+    } catch (e) {
+        return Object.prototype.toString.call(value)
+    }
+}
+
 import { globalState } from "../core/globalstate"
 import { IObservableArray, isObservableArray } from "../types/observablearray"
 import { isObservableMap, ObservableMap, IKeyValueMap } from "../types/observablemap"
@@ -468,3 +468,224 @@ test("Fix #1367", () => {
     )
     expect(mobx.isAction(x.method)).toBe(true)
 })
+
+test("atomic actions revert all changes if they throw", () => {
+    const box = mobx.observable.box(1)
+    const todos = mobx.observable([{ title: "a" }])
+    const tags = mobx.observable.map({ x: 1 })
+    const store = mobx.observable({ title: "todos" })
+    const values = []
+    const d = mobx.autorun(() =>
+        values.push(
+            [
+                box.get(),
+                store.title,
+                store.owner,
+                todos.map(t => t.title).join(","),
+                JSON.stringify(tags.toJSON())
+            ].join(" ")
+        )
+    )
+
+    const change = mobx.action.atomic("change", fail => {
+        box.set(2)
+        store.title = "changed"
+        mobx.set(store, "owner", "michel")
+        todos[0].title = "A"
+        todos.push({ title: "b" })
+        todos.shift()
+        tags.set("x", 2)
+        tags.set("y", 3)
+        tags.delete("x")
+        if (fail) throw new Error("oops")
+    })
+
+    expect(() => change(true)).toThrow(/oops/)
+    // the autorun is re-run, but never sees the intermediate state
+    expect(values).toEqual(['1 todos  a {"x":1}', '1 todos  a {"x":1}'])
+    expect(mobx.isObservableObject(todos[0])).toBe(true)
+
+    change(false)
+    expect(values[2]).toBe('2 changed michel b {"y":3}')
+    d()
+})
+
+test("atomic actions revert removed properties", () => {
+    const store = mobx.observable({ title: "todos", owner: { name: "michel" } })
+    const owner = store.owner
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            mobx.remove(store, "owner")
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(store.owner).toBe(owner)
+    expect(mobx.isObservableProp(store, "owner")).toBe(true)
+    expect(mobx.keys(store)).toEqual(["title", "owner"])
+})
+
+test("atomic actions revert without running interceptors", () => {
+    const box = mobx.observable.box(1)
+    const store = mobx.observable({ title: "a" })
+    const todos = mobx.observable(["a"])
+    const tags = mobx.observable.map({ x: 1 })
+    const ids = mobx.observable.set([1])
+    // interceptors that only accept "new" values
+    mobx.intercept(box, change => (change.newValue > 1 ? change : null))
+    mobx.intercept(
+        store,
+        change => (change.type === "update" && change.newValue === "a" ? null : change)
+    )
+    mobx.intercept(
+        todos,
+        change => (change.type === "splice" && change.removedCount > 0 ? null : change)
+    )
+    mobx.intercept(tags, change => (change.type === "delete" ? null : change))
+    mobx.intercept(ids, change => (change.type === "delete" ? null : change))
+
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            box.set(2)
+            store.title = "b"
+            todos.push("b")
+            tags.set("x", 2)
+            tags.set("y", 3)
+            ids.add(2)
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(box.get()).toBe(1)
+    expect(store.title).toBe("a")
+    expect(todos.slice()).toEqual(["a"])
+    expect(tags.toJSON()).toEqual({ x: 1 })
+    expect(mobx.values(ids)).toEqual([1])
+})
+
+test("atomic actions keep object and map keys consistent when reverting", () => {
+    const store = mobx.observable({ a: 1, b: 2 })
+    const tags = mobx.observable.map({ x: 1, y: 2 })
+    const keys = []
+    const d = mobx.autorun(() => keys.push(mobx.keys(store).join(",") + " " + tags.size))
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            mobx.remove(store, "a")
+            mobx.set(store, "c", 3)
+            tags.delete("x")
+            tags.set("z", 3)
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(mobx.keys(store)).toEqual(["a", "b"])
+    expect(Array.from(tags.keys())).toEqual(["x", "y"])
+    expect(keys).toEqual(["a,b 2", "a,b 2"])
+    d()
+})
+
+test("nested atomic actions", () => {
+    const box = mobx.observable.box(0)
+    const values = []
+    const d = mobx.autorun(() => values.push(box.get()))
+
+    const result = mobx.runInAtomicAction("outer", () => {
+        box.set(1)
+        try {
+            mobx.runInAtomicAction("inner", () => {
+                box.set(2)
+                throw new Error("inner")
+            })
+        } catch (e) {
+            expect(box.get()).toBe(1)
+        }
+        return box.get()
+    })
+    expect(result).toBe(1)
+    expect(values).toEqual([0, 1])
+
+    // changes of a succeeded inner action are reverted by a failing outer action
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            mobx.runInAtomicAction(() => box.set(3))
+            box.set(4)
+            throw new Error("outer")
+        })
+    ).toThrow(/outer/)
+    expect(box.get()).toBe(1)
+    expect(values).toEqual([0, 1, 1])
+
+    // changes of a regular action inside an atomic action are recorded as well
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            mobx.runInAction(() => box.set(5))
+            throw new Error("outer")
+        })
+    ).toThrow(/outer/)
+    expect(box.get()).toBe(1)
+    d()
+})
+
+test("action middlewares wrap actions", () => {
+    const events = []
+    const d1 = mobx.addActionMiddleware((call, next) => {
+        events.push("outer:" + call.name + ":" + call.args.join(","))
+        const res = next()
+        events.push("outer result:" + res)
+        return res * 10
+    })
+    const d2 = mobx.addActionMiddleware((call, next) => {
+        events.push("inner:" + call.name)
+        call.args[0] = call.args[0] + 1
+        return next()
+    })
+    try {
+        const store = mobx.observable({ value: 0 })
+        const increment = mobx.action("increment", function(by) {
+            this.value += by
+            return this.value
+        })
+        expect(increment.call(store, 2)).toBe(30)
+        expect(store.value).toBe(3)
+        expect(events).toEqual(["outer:increment:2", "inner:increment", "outer result:3"])
+    } finally {
+        d1()
+        d2()
+    }
+    expect(mobx.runInAction(() => 1)).toBe(1)
+})
+
+test("action middlewares can veto actions", () => {
+    const box = mobx.observable.box(1)
+    const d = mobx.addActionMiddleware((call, next) => {
+        if (call.name === "forbidden") throw new Error("Not allowed: " + call.name)
+        return next()
+    })
+    try {
+        expect(() => mobx.runInAction("forbidden", () => box.set(2))).toThrow(
+            /Not allowed: forbidden/
+        )
+        mobx.runInAction("allowed", () => box.set(3))
+        expect(box.get()).toBe(3)
+    } finally {
+        d()
+    }
+})
+
+test("action middlewares wrap atomic actions", () => {
+    const box = mobx.observable.box(1)
+    const names = []
+    const d = mobx.addActionMiddleware((call, next) => {
+        names.push(call.name)
+        return next()
+    })
+    try {
+        expect(() =>
+            mobx.runInAtomicAction("atomic", () => {
+                box.set(2)
+                throw new Error("oops")
+            })
+        ).toThrow(/oops/)
+        expect(box.get()).toBe(1)
+        expect(names).toEqual(["atomic"])
+    } finally {
+        d()
+    }
+})
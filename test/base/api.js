@@ -5,24 +5,38 @@ test("correct api should be exposed", function() {
     expect(Object.keys(mobx).filter(key => mobx[key] !== undefined).sort()).toEqual(
         [
             "action",
+            "addActionMiddleware",
+            "applyPatch",
             "_allowStateChanges",
             "autorun",
             "comparer",
             "computed",
+            "computedFn",
             "configure",
             "createAtom",
+            "createLogger",
+            "createReactiveContext",
+            "createTransformer",
+            "createUndoManager",
             "decorate",
+            "deepObserve",
+            "exportDependencyGraph",
             "extendObservable",
             "extendShallowObservable", // deprecated but still public
             "flow",
             "get",
             "_getAdministration",
+            "getActiveReactions",
             "getAtom",
             "getDebugName",
             "getDependencyTree",
+            "getDerivationInfo",
+            "getFlowSignal",
             "has",
             "_getGlobalState",
             "getObserverTree",
+            "getRecomputeStats",
+            "getSnapshot",
             "IDerivationState",
             "intercept",
             "_interceptReads",
@@ -37,19 +51,29 @@ test("correct api should be exposed", function() {
             "isObservableMap",
             "isObservableObject",
             "isObservableProp",
+            "isObservableSet",
             "keys",
             "observable",
             "observe",
+            "ObservableSet",
             "onReactionError",
             "onBecomeObserved",
             "onBecomeUnobserved",
+            "onPatch",
+            "optimistic",
             "Reaction",
             "reaction",
             "remove",
+            "reportLeaks",
+            "resetRecomputeStats",
             "_resetGlobalState",
             "runInAction",
+            "runInAtomicAction",
+            "runInContext",
             "set",
             "spy",
+            "startProfiling",
+            "stopProfiling",
             "toJS",
             "trace",
             "transaction",
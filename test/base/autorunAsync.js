@@ -272,3 +272,84 @@ test("whenWithTimeout should dispose", done => {
         150
     )
 })
+
+test("when can be aborted with a signal", () => {
+    const a = m.observable.box(1)
+    const controller = new AbortController()
+    let fired = false
+    m.when(() => a.get() === 2, () => (fired = true), { signal: controller.signal })
+    const promise = m.when(() => a.get() === 2, { signal: controller.signal })
+
+    controller.abort()
+    a.set(2)
+    expect(fired).toBe(false)
+    return promise.then(
+        () => {
+            throw new Error("should not resolve")
+        },
+        e => expect(e).toBe("WHEN_ABORTED")
+    )
+})
+
+test("when with an aborted signal doesn't run", () => {
+    const controller = new AbortController()
+    controller.abort()
+    return m.when(() => true, { signal: controller.signal }).then(
+        () => {
+            throw new Error("should not resolve")
+        },
+        e => expect(e).toBe("WHEN_ABORTED")
+    )
+})
+
+test("when with a signal resolves normally", () => {
+    const a = m.observable.box(1)
+    const controller = new AbortController()
+    const promise = m.when(() => a.get() === 2, { signal: controller.signal })
+    a.set(2)
+    controller.abort()
+    return promise
+})
+
+function trackAbortListeners(signal) {
+    const listeners = new Set()
+    const add = signal.addEventListener.bind(signal)
+    const remove = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (type, listener) => {
+        listeners.add(listener)
+        add(type, listener)
+    }
+    signal.removeEventListener = (type, listener) => {
+        listeners.delete(listener)
+        remove(type, listener)
+    }
+    return listeners
+}
+
+test("when removes its abort listeners once settled", () => {
+    const a = m.observable.box(1)
+    const signal = new AbortController().signal
+    const listeners = trackAbortListeners(signal)
+    m.when(() => a.get() === 2, () => {}, { signal })
+    const promise = m.when(() => a.get() === 2, { signal })
+    const cancelled = m.when(() => a.get() === 3, { signal })
+    const disposer = m.when(() => a.get() === 3, () => {}, { signal })
+    expect(listeners.size).toBe(6)
+    a.set(2)
+    cancelled.cancel()
+    disposer()
+    return Promise.all([promise, cancelled.catch(() => {})]).then(() =>
+        expect(listeners.size).toBe(0)
+    )
+})
+
+test("when removes its abort listeners after a timeout", done => {
+    const signal = new AbortController().signal
+    const listeners = trackAbortListeners(signal)
+    m.when(() => false, { signal, timeout: 10 }).catch(e => {
+        expect(e.message).toBe("WHEN_TIMEOUT")
+        expect(listeners.size).toBe(0)
+        done()
+    })
+    expect(listeners.size).toBe(2)
+})
@@ -216,6 +216,8 @@ function normalizeSpyEvents(events) {
     events.forEach(ev => {
         delete ev.fn
         delete ev.time
+        delete ev.id
+        delete ev.parentId
     })
     return events
 }
@@ -242,11 +244,11 @@ test("action decorator (babel)", function() {
 
     expect(normalizeSpyEvents(events)).toEqual([
         { arguments: [3, 4], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [3, 4], name: "add", spyReportStart: true, object: store2, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [1, 1], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -280,7 +282,7 @@ test("custom action decorator (babel)", function() {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [3, 4],
             name: "zoem zoem",
@@ -288,7 +290,7 @@ test("custom action decorator (babel)", function() {
             object: store2,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [1, 1],
             name: "zoem zoem",
@@ -296,7 +298,7 @@ test("custom action decorator (babel)", function() {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -325,11 +327,11 @@ test("action decorator on field (babel)", function() {
 
     expect(normalizeSpyEvents(events)).toEqual([
         { arguments: [3, 4], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [5, 4], name: "add", spyReportStart: true, object: store2, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [2, 2], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -364,7 +366,7 @@ test("custom action decorator on field (babel)", function() {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [5, 4],
             name: "zoem zoem",
@@ -372,7 +374,7 @@ test("custom action decorator on field (babel)", function() {
             object: store2,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [2, 2],
             name: "zoem zoem",
@@ -380,7 +382,7 @@ test("custom action decorator on field (babel)", function() {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
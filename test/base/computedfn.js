@@ -0,0 +1,102 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, computedFn, autorun } = mobx
+
+function createStore() {
+    const store = observable({
+        todos: [
+            { title: "a", tags: ["home"] },
+            { title: "b", tags: ["work"] },
+            { title: "c", tags: ["home", "work"] }
+        ]
+    })
+    store.evaluations = []
+    store.todosByTag = computedFn(function todosByTag(tag) {
+        this.evaluations.push(tag)
+        return this.todos.filter(todo => todo.tags.indexOf(tag) !== -1).map(todo => todo.title)
+    })
+    return store
+}
+
+test("computedFn memoizes per argument in reactive contexts", () => {
+    const store = createStore()
+    const values = []
+    const d1 = autorun(() => values.push(store.todosByTag("home").join(",")))
+    const d2 = autorun(() => values.push(store.todosByTag("home").join(",") + "!"))
+    const d3 = autorun(() => values.push(store.todosByTag("work").join(",")))
+    expect(store.evaluations).toEqual(["home", "work"])
+
+    store.todos[1].title = "B"
+    // "home" doesn't depend on the title of "b"
+    expect(store.evaluations).toEqual(["home", "work", "work"])
+    expect(values).toEqual(["a,c", "a,c!", "b,c", "B,c"])
+
+    store.todos.push({ title: "d", tags: ["home"] })
+    // both autoruns share a single evaluation of "home"
+    expect(store.evaluations.slice(3).sort()).toEqual(["home", "work"])
+    expect(values.slice(4).sort()).toEqual(["B,c", "a,c,d", "a,c,d!"])
+    d1()
+    d2()
+    d3()
+})
+
+test("computedFn evicts entries that are no longer observed", () => {
+    const store = createStore()
+    const d = autorun(() => store.todosByTag("home"))
+    store.todosByTag("home")
+    expect(store.evaluations).toEqual(["home"])
+    d()
+
+    // outside reactive contexts, the function is just evaluated
+    store.todosByTag("home")
+    store.todosByTag("home")
+    expect(store.evaluations).toEqual(["home", "home", "home"])
+})
+
+test("computedFn memoizes per this and argument combination", () => {
+    const calls = []
+    const sum = computedFn(function sum(a, b) {
+        calls.push([a, b])
+        return a + b + this.offset.get()
+    })
+    const x = { offset: observable.box(0) }
+    const y = { offset: observable.box(10) }
+    const values = []
+    const d = autorun(() => {
+        values.push([sum.call(x, 1, 2), sum.call(x, 1, 2), sum.call(x, 2, 1), sum.call(y, 1, 2)])
+    })
+    expect(calls).toEqual([[1, 2], [2, 1], [1, 2]])
+    y.offset.set(20)
+    expect(calls).toEqual([[1, 2], [2, 1], [1, 2], [1, 2]])
+    expect(values).toEqual([[3, 3, 3, 13], [3, 3, 3, 23]])
+    d()
+})
+
+test("computedFn supports custom equality", () => {
+    const x = observable.box(1)
+    const pair = computedFn(factor => [x.get() % 2, factor], mobx.comparer.structural)
+    const values = []
+    const d = mobx.reaction(() => pair(1), v => values.push(v))
+    x.set(3)
+    x.set(4)
+    expect(values).toEqual([[0, 1]])
+    d()
+})
+
+test("computedFn should not be used on actions", () => {
+    expect(() => computedFn(mobx.action(() => {}))).toThrow(/shouldn't be used on actions/)
+})
+
+test("computedFn accepts arguments that can't be converted to a string", () => {
+    const dict = Object.create(null)
+    dict.value = 2
+    const double = computedFn(function double(d) {
+        return d.value * 2
+    })
+    const values = []
+    const d = mobx.autorun(() => values.push(double(dict)))
+    expect(values).toEqual([4])
+    expect(mobx.getDependencyTree(d).dependencies[0].name).toBe("double([object Object])")
+    d()
+})
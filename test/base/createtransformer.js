@@ -0,0 +1,80 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, createTransformer, autorun } = mobx
+
+test("createTransformer memoizes per source object", () => {
+    const todos = observable([{ title: "a", done: false }, { title: "b", done: true }])
+    const evaluations = []
+    const cleanups = []
+    const renderTodo = createTransformer(
+        todo => {
+            evaluations.push(todo.title)
+            return (todo.done ? "[x] " : "[ ] ") + todo.title
+        },
+        (result, todo) => cleanups.push([result, todo.title])
+    )
+
+    const values = []
+    const d = autorun(() => values.push(todos.map(renderTodo).join(", ")))
+    expect(values).toEqual(["[ ] a, [x] b"])
+    expect(evaluations).toEqual(["a", "b"])
+
+    todos[0].done = true
+    expect(values).toEqual(["[ ] a, [x] b", "[x] a, [x] b"])
+    expect(evaluations).toEqual(["a", "b", "a"])
+
+    todos.push({ title: "c", done: false })
+    expect(evaluations).toEqual(["a", "b", "a", "c"])
+
+    const removed = todos.shift()
+    expect(cleanups).toEqual([["[x] a", "a"]])
+    // changes to removed sources no longer cause evaluations
+    removed.done = false
+    expect(evaluations).toEqual(["a", "b", "a", "c"])
+
+    d()
+    expect(cleanups.length).toBe(3)
+    expect(cleanups).toContainEqual(["[x] b", "b"])
+    expect(cleanups).toContainEqual(["[ ] c", "c"])
+})
+
+test("createTransformer evaluates without memoization outside reactive contexts", () => {
+    const source = observable({ value: 1 })
+    let evaluations = 0
+    const double = createTransformer(s => {
+        evaluations++
+        return s.value * 2
+    })
+    expect(double(source)).toBe(2)
+    expect(double(source)).toBe(2)
+    expect(evaluations).toBe(2)
+})
+
+test("createTransformer reuses derived objects", () => {
+    const store = observable({ items: [{ name: "a" }] })
+    const toView = createTransformer(item => ({ label: item.name.toUpperCase() }))
+    const views = []
+    const d = autorun(() => views.push(store.items.map(toView)))
+    store.items.push({ name: "b" })
+    expect(views[1][0]).toBe(views[0][0])
+    expect(views[1][1]).toEqual({ label: "B" })
+    d()
+})
+
+test("createTransformer expects a function with a single argument", () => {
+    expect(() => createTransformer((a, b) => a)).toThrow(/accepts one argument/)
+})
+
+test("transforms objects that can't be converted to a string", () => {
+    const source = Object.create(null)
+    source.value = 2
+    const transform = createTransformer(function double(s) {
+        return s.value * 2
+    })
+    const values = []
+    const d = mobx.autorun(() => values.push(transform(source)))
+    expect(values).toEqual([4])
+    expect(mobx.getDependencyTree(d).dependencies[0].name).toBe("double-[object Object]")
+    d()
+})
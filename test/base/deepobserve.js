@@ -0,0 +1,131 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, deepObserve } = mobx
+
+function createStore() {
+    return observable({
+        title: "todos",
+        todos: [{ title: "a", done: false }],
+        tags: observable.map({ urgent: { color: "red" } })
+    })
+}
+
+function recordChanges(root) {
+    const events = []
+    const dispose = deepObserve(root, (change, path, r) => {
+        expect(r).toBe(root)
+        events.push([change.type, path, change.name !== undefined ? change.name : change.index])
+    })
+    return { events, dispose }
+}
+
+test("deepObserve reports changes with their path", () => {
+    const store = createStore()
+    const { events, dispose } = recordChanges(store)
+
+    store.title = "my todos"
+    store.todos[0].done = true
+    store.todos.push({ title: "b", done: false })
+    store.tags.get("urgent").color = "orange"
+    store.tags.set("a/b", { color: "blue" })
+    store.tags.get("a/b").color = "green"
+
+    expect(events).toEqual([
+        ["update", "", "title"],
+        ["update", "/todos/0", "done"],
+        ["splice", "/todos", 1],
+        ["update", "/tags/urgent", "color"],
+        ["add", "/tags", "a/b"],
+        ["update", "/tags/a~1b", "color"]
+    ])
+    dispose()
+})
+
+test("deepObserve attaches to added and detaches from removed children", () => {
+    const store = createStore()
+    const { events } = recordChanges(store)
+
+    const oldTodo = store.todos[0]
+    const newTodo = observable({ title: "b", nested: { value: 1 } })
+    store.todos[0] = newTodo
+    oldTodo.done = true
+    newTodo.nested.value = 2
+    mobx.set(store, "extra", { value: 1 })
+    store.extra.value = 2
+    const extra = store.extra
+    mobx.remove(store, "extra")
+    extra.value = 3
+
+    expect(events).toEqual([
+        ["update", "/todos", 0],
+        ["update", "/todos/0/nested", "value"],
+        ["add", "", "extra"],
+        ["update", "/extra", "value"],
+        ["remove", "", "extra"]
+    ])
+})
+
+test("deepObserve keeps array paths up to date", () => {
+    const todos = observable([{ title: "a" }, { title: "b" }])
+    const { events } = recordChanges(todos)
+
+    todos.unshift({ title: "c" })
+    todos[2].title = "B"
+    todos.splice(0, 2)
+    todos[0].title = "BB"
+
+    expect(events).toEqual([
+        ["splice", "", 0],
+        ["update", "/2", "title"],
+        ["splice", "", 0],
+        ["update", "/0", "title"]
+    ])
+})
+
+test("deepObserve can be disposed", () => {
+    const store = createStore()
+    const { events, dispose } = recordChanges(store)
+    dispose()
+    store.title = "b"
+    store.todos[0].done = true
+    expect(events).toEqual([])
+})
+
+test("deepObserve allows observables to appear twice while they are moved", () => {
+    const store = observable({ items: [{ n: 1 }, { n: 2 }] })
+    const { events } = recordChanges(store)
+    const [a, b] = store.items.slice()
+
+    mobx.runInAction(() => {
+        store.items[0] = b
+        store.items[1] = a
+    })
+    expect(mobx.toJS(store.items)).toEqual([{ n: 2 }, { n: 1 }])
+    a.n = 3
+    b.n = 4
+    expect(events).toEqual([
+        ["update", "/items", 0],
+        ["update", "/items", 1],
+        ["update", "/items/1", "n"],
+        ["update", "/items/0", "n"]
+    ])
+})
+
+test("deepObserve keeps observing observables that are still in the tree", () => {
+    const todo = observable({ title: "a" })
+    const todos = observable([todo])
+    const { events } = recordChanges(todos)
+
+    todos.push(todo)
+    todos.shift()
+    todo.title = "b"
+    todos.pop()
+    todo.title = "c"
+    expect(events).toEqual([
+        ["splice", "", 1],
+        ["splice", "", 0],
+        ["update", "/0", "title"],
+        ["splice", "", 0]
+    ])
+})
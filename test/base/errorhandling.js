@@ -746,6 +746,33 @@ test("global error handling will be skipped when using disableErrorBoundaries -
     }
 })
 
+test("spy events are ended when using disableErrorBoundaries", () => {
+    mobx.configure({ disableErrorBoundaries: true })
+    const events = []
+    const stop = mobx.spy(event => events.push(event))
+    try {
+        const a = mobx.observable.box(1)
+        const c = mobx.computed(() => {
+            if (a.get() === 2) throw "OOPS"
+            return a.get()
+        })
+        const d = mobx.autorun(() => c.get())
+
+        expect(() => {
+            a.set(2)
+        }).toThrowError(/OOPS/)
+        expect(mobx._getGlobalState().spyEventStack).toEqual([])
+        expect(events.filter(e => e.spyReportStart).length).toBe(
+            events.filter(e => e.spyReportEnd).length
+        )
+        d()
+    } finally {
+        stop()
+        mobx.configure({ disableErrorBoundaries: false })
+        mobx._resetGlobalState()
+    }
+})
+
 test("error in effect of when is properly cleaned up", () => {
     checkGlobalState()
 
@@ -760,3 +787,125 @@ test("error in effect of when is properly cleaned up", () => {
     b.set(2)
     checkGlobalState()
 })
+
+test("computed values can recover from errors using onError", () => {
+    const x = mobx.observable.box(1)
+    const errors = []
+    const events = []
+    const d1 = mobx.onReactionError((e, derivation) => errors.push([e, derivation]))
+    const d2 = mobx.spy(event => event.type === "error" && events.push(event))
+
+    const c = computed(
+        () => {
+            if (x.get() < 0) throw new Error("negative")
+            return x.get() * 2
+        },
+        { name: "double", onError: e => -1 }
+    )
+    const values = []
+    const d3 = mobx.autorun(() => values.push(c.get()))
+    expect(c.isErrored).toBe(false)
+    expect(c.error).toBe(undefined)
+
+    x.set(-1)
+    expect(values).toEqual([2, -1])
+    expect(c.isErrored).toBe(true)
+    expect(c.error.message).toBe("negative")
+    expect(errors.length).toBe(1)
+    expect(errors[0][0].message).toBe("negative")
+    expect(errors[0][1]).toBe(c)
+    expect(events.length).toBe(1)
+    expect(events[0].name).toBe("double")
+    expect(events[0].error).toBe("Error: negative")
+    expect(mobx.getDerivationInfo(c).isErrored).toBe(true)
+
+    x.set(2)
+    expect(values).toEqual([2, -1, 4])
+    expect(c.isErrored).toBe(false)
+    expect(c.error).toBe(undefined)
+
+    d1()
+    d2()
+    d3()
+    checkGlobalState()
+})
+
+test("computed values without onError keep rethrowing", () => {
+    const c = computed(() => {
+        throw new Error("always")
+    })
+    expect(() => c.get()).toThrow(/always/)
+    expect(c.isErrored).toBe(true)
+    expect(c.error.message).toBe("always")
+})
+
+test("the error of a computed value is up to date and observable", () => {
+    const x = mobx.observable.box(-1)
+    const c = computed(
+        () => {
+            if (x.get() < 0) throw new Error("negative " + x.get())
+            return 0
+        },
+        { onError: () => 0 }
+    )
+    // not observed, so reading the error recomputes
+    expect(c.error.message).toBe("negative -1")
+    x.set(1)
+    expect(c.isErrored).toBe(false)
+
+    const errors = []
+    const d = mobx.autorun(() => errors.push(c.error && c.error.message))
+    x.set(-2)
+    x.set(-3)
+    x.set(2)
+    expect(errors).toEqual([undefined, "negative -2", "negative -3", undefined])
+
+    x.set(-4)
+    expect(mobx.getDerivationInfo(c).isErrored).toBe(true)
+    d()
+    // suspended
+    expect(mobx.getDerivationInfo(c).isErrored).toBe(false)
+    expect(mobx.getDerivationInfo(c).error).toBe(undefined)
+    checkGlobalState()
+})
+
+test("the fallback of onError is tracked by the computed value", () => {
+    const fallback = mobx.observable.box("fb1")
+    const c = computed(
+        () => {
+            throw new Error("always")
+        },
+        { onError: () => fallback.get() }
+    )
+    const values = []
+    const d = mobx.autorun(() => values.push(c.get()))
+    fallback.set("fb2")
+    expect(values).toEqual(["fb1", "fb2"])
+    expect(c.get()).toBe("fb2")
+    expect(mobx.getDependencyTree(c).dependencies.map(dep => dep.name)).toEqual([
+        fallback.name
+    ])
+    d()
+    checkGlobalState()
+})
+
+test("exceptions thrown by onError are rethrown to readers", () => {
+    const c = computed(
+        () => {
+            throw new Error("first")
+        },
+        {
+            onError: () => {
+                throw new Error("second")
+            }
+        }
+    )
+    const d = mobx.autorun(() => {
+        try {
+            c.get()
+        } catch (e) {}
+    })
+    expect(() => c.get()).toThrow(/second/)
+    expect(c.error.message).toBe("first")
+    d()
+})
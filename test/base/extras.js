@@ -427,3 +427,190 @@ test("deepEquals should yield correct results for complex objects #1118 - 2", ()
     expect(mobx.comparer.structural(a1, a2)).toBe(true)
     expect(mobx.comparer.structural(a1, a4)).toBe(false)
 })
+
+test("exportDependencyGraph", () => {
+    m.configure({ trackReactions: true })
+    const store = m.observable({
+        price: 3,
+        amount: 2,
+        unused: 1,
+        get total() {
+            return this.price * this.amount
+        }
+    })
+    const d = m.autorun(() => store.total + store.price, { name: "render" })
+    const $values = store.$mobx.values
+    const total = $values.total
+
+    const graph = m.exportDependencyGraph()
+    const byName = {}
+    graph.nodes.forEach(node => (byName[node.name] = node))
+    expect(graph.nodes.length).toBe(4)
+    expect(byName.render).toEqual({
+        id: d.$mobx.__mapid,
+        name: "render",
+        kind: "reaction",
+        state: m.IDerivationState.UP_TO_DATE
+    })
+    expect(byName[total.name]).toEqual({
+        id: total.__mapid,
+        name: total.name,
+        kind: "computed",
+        state: m.IDerivationState.UP_TO_DATE
+    })
+    expect(byName[$values.price.name].kind).toBe("atom")
+    expect(byName[$values.price.name].state).toBe(undefined)
+
+    const edges = graph.edges.map(edge => {
+        const from = graph.nodes.filter(node => node.id === edge.from)[0]
+        const to = graph.nodes.filter(node => node.id === edge.to)[0]
+        return from.name + " -> " + to.name
+    })
+    expect(edges.sort()).toEqual(
+        [
+            "render -> " + total.name,
+            "render -> " + $values.price.name,
+            total.name + " -> " + $values.price.name,
+            total.name + " -> " + $values.amount.name
+        ].sort()
+    )
+    expect(JSON.parse(JSON.stringify(graph))).toEqual({ nodes: graph.nodes, edges: graph.edges })
+
+    const dot = graph.toDot()
+    expect(dot).toMatch(/^digraph mobx {\n/)
+    expect(dot).toContain(`"${d.$mobx.__mapid}" [label="render\\nUP_TO_DATE", shape=doubleoctagon];`)
+    expect(dot).toContain(`"${d.$mobx.__mapid}" -> "${total.__mapid}";`)
+
+    d()
+    expect(m.exportDependencyGraph().nodes).toEqual([])
+    m.configure({ trackReactions: false })
+})
+
+test("exportDependencyGraph without roots requires tracking reactions", () => {
+    const x = m.observable.box(1)
+    const d = m.autorun(() => x.get())
+    expect(() => m.exportDependencyGraph()).toThrow(/trackReactions/)
+
+    m.configure({ trackReactions: true })
+    expect(m.exportDependencyGraph().nodes).toEqual([])
+    x.set(2)
+    expect(m.exportDependencyGraph().nodes.length).toBe(2)
+    m.configure({ trackReactions: false })
+    expect(m._getGlobalState().liveReactions).toEqual({})
+    d()
+})
+
+test("exportDependencyGraph from roots", () => {
+    const store = m.observable({ a: 1, b: 2 })
+    const other = m.observable.box(3)
+    const d1 = m.autorun(() => store.a, { name: "a reader" })
+    const d2 = m.autorun(() => other.get(), { name: "other reader" })
+
+    expect(m.exportDependencyGraph([store.$mobx.values.a]).nodes.map(n => n.name)).toEqual([
+        store.$mobx.values.a.name,
+        "a reader"
+    ])
+    expect(m.exportDependencyGraph([store]).nodes.map(n => n.name)).toEqual([
+        store.$mobx.values.a.name,
+        store.$mobx.values.b.name,
+        "a reader"
+    ])
+    expect(m.exportDependencyGraph([d2]).nodes.map(n => n.name)).toEqual([
+        "other reader",
+        other.name
+    ])
+    d1()
+    d2()
+})
+
+test("getDerivationInfo works in the built library", () => {
+    const fs = require("fs")
+    const child_process = require("child_process")
+    if (!fs.existsSync(__dirname + "/../../lib/mobx.js"))
+        child_process.execSync("npm run quick-build", { stdio: "inherit" })
+    const built = require("../../lib/mobx.js")
+    const x = built.observable.box(1)
+    const double = built.computed(() => x.get() * 2)
+    const d = built.autorun(() => double.get())
+    expect(built.getDerivationInfo(double).state).toBe("up-to-date")
+    d()
+    expect(built.getDerivationInfo(double).state).toBe("not-tracking")
+})
+
+test("getDerivationInfo", () => {
+    const store = m.observable({
+        price: 3,
+        amount: 2,
+        get total() {
+            return this.price * this.amount
+        }
+    })
+    const $values = store.$mobx.values
+    expect(m.getDerivationInfo(store, "total")).toEqual({
+        name: $values.total.name,
+        kind: "computed",
+        state: "not-tracking",
+        lastComputeDuration: 0,
+        computeCount: 0,
+        observerCount: 0,
+        triggeredBy: undefined,
+        isErrored: false,
+        error: undefined
+    })
+    expect(() => m.getDerivationInfo(store, "price")).toThrow(
+        /expects a computed value or reaction/
+    )
+
+    const d = m.autorun(() => store.total, { name: "render" })
+    let info = m.getDerivationInfo(store, "total")
+    expect(info.state).toBe("up-to-date")
+    expect(info.computeCount).toBe(1)
+    expect(info.observerCount).toBe(1)
+    expect(info.lastComputeDuration).toBeGreaterThanOrEqual(0)
+
+    m.transaction(() => {
+        store.amount = 4
+        expect(m.getDerivationInfo(store, "total").state).toBe("stale")
+        expect(m.getDerivationInfo(d).state).toBe("possibly-stale")
+    })
+    info = m.getDerivationInfo(store, "total")
+    expect(info.computeCount).toBe(2)
+    expect(info.triggeredBy).toBe($values.amount.name)
+
+    expect(m.getDerivationInfo(d)).toEqual({
+        name: "render",
+        kind: "reaction",
+        state: "up-to-date",
+        lastComputeDuration: m.getDerivationInfo(d).lastComputeDuration,
+        computeCount: 2,
+        observerCount: 0,
+        triggeredBy: $values.total.name,
+        isErrored: false,
+        error: undefined
+    })
+    d()
+    expect(m.getDerivationInfo(d).state).toBe("not-tracking")
+})
+
+test("getDerivationInfo measures durations", () => {
+    const busyWait = () => {
+        const start = Date.now()
+        while (Date.now() - start < 2);
+    }
+    const x = m.observable.box(1)
+    const slow = m.computed(() => {
+        busyWait()
+        return x.get()
+    })
+    const d = m.autorun(() => {
+        busyWait()
+        slow.get()
+    })
+    expect(m.getDerivationInfo(slow).lastComputeDuration).toBeGreaterThan(1)
+    expect(m.getDerivationInfo(d).lastComputeDuration).toBeGreaterThan(1)
+
+    x.set(2)
+    expect(m.getDerivationInfo(slow).lastComputeDuration).toBeGreaterThan(1)
+    expect(m.getDerivationInfo(d).lastComputeDuration).toBeGreaterThan(1)
+    d()
+})
@@ -345,3 +345,284 @@ test("cancelled flow should not result in runaway reject", async () => {
         expect("" + e).toBe("Error: FLOW_CANCELLED")
     }
 })
+
+test("flow concurrency 'every' runs all calls in parallel", async () => {
+    const log = []
+    const run = flow(
+        function*(id) {
+            log.push("start " + id)
+            yield delay(10)
+            log.push("end " + id)
+            return id
+        },
+        { concurrency: "every" }
+    )
+    expect(await Promise.all([run(1), run(2)])).toEqual([1, 2])
+    expect(log).toEqual(["start 1", "start 2", "end 1", "end 2"])
+})
+
+test("flow concurrency 'latest' cancels the pending run", async () => {
+    const log = []
+    const search = flow(
+        function*(query) {
+            yield delay(10)
+            log.push(query)
+            return query
+        },
+        { concurrency: "latest" }
+    )
+    const p1 = search("a")
+    const p2 = search("ab")
+    const p3 = search("abc")
+    await expect(p1).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    await expect(p2).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    expect(await p3).toBe("abc")
+    expect(log).toEqual(["abc"])
+
+    // once settled, new calls start a new run
+    expect(await search("x")).toBe("x")
+})
+
+test("flow concurrency 'exhaust' ignores calls while pending", async () => {
+    let runs = 0
+    const save = flow(
+        function*(value) {
+            runs++
+            yield delay(10)
+            return value
+        },
+        { concurrency: "exhaust" }
+    )
+    const p1 = save(1)
+    const p2 = save(2)
+    expect(p2).toBe(p1)
+    expect(await p2).toBe(1)
+    expect(runs).toBe(1)
+    expect(await save(3)).toBe(3)
+    expect(runs).toBe(2)
+})
+
+test("flow concurrency 'queue' serializes runs", async () => {
+    const log = []
+    const save = flow(
+        function*(id, shouldThrow) {
+            log.push("start " + id)
+            yield delay(10)
+            log.push("end " + id)
+            if (shouldThrow) throw new Error("failed " + id)
+            return id
+        },
+        { concurrency: "queue" }
+    )
+    const p1 = save(1, true)
+    const p2 = save(2)
+    const p3 = save(3)
+    const p4 = save(4)
+    p3.cancel()
+    await expect(p3).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    await expect(p1).rejects.toEqual(new Error("failed 1"))
+    expect(await p2).toBe(2)
+    expect(await p4).toBe(4)
+    expect(log).toEqual(["start 1", "end 1", "start 2", "end 2", "start 4", "end 4"])
+})
+
+test("flow concurrency 'queue' keeps running after a run fails to start", async () => {
+    const save = flow(
+        function* save(id) {
+            yield delay(10)
+            return id
+        },
+        { concurrency: "queue" }
+    )
+    const d = mobx.addActionMiddleware((call, next) => {
+        if (/^save - runid: \d+ - init$/.test(call.name) && call.args[0] === 1)
+            throw new Error("Not allowed: " + call.args[0])
+        return next()
+    })
+    try {
+        const p1 = save(1)
+        const p2 = save(2)
+        await expect(p1).rejects.toEqual(new Error("Not allowed: 1"))
+        expect(await p2).toBe(2)
+    } finally {
+        d()
+    }
+})
+
+test("flow rejects invalid concurrency", () => {
+    expect(() => flow(function*() {}, { concurrency: "sometimes" })).toThrow(
+        /Invalid flow concurrency 'sometimes'/
+    )
+})
+
+test("flows can be cancelled with a signal", async () => {
+    const steps = []
+    let flowSignal
+    const start = flow(function*(value) {
+        flowSignal = mobx.getFlowSignal()
+        try {
+            steps.push(value)
+            yield delay(10)
+            steps.push("not reached")
+        } finally {
+            steps.push("finally")
+        }
+    })
+    const controller = new AbortController()
+    const p = start.withSignal(controller.signal)(1)
+    expect(flowSignal.aborted).toBe(false)
+    controller.abort()
+    await expect(p).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    expect(flowSignal.aborted).toBe(true)
+    expect(steps).toEqual([1, "finally"])
+    expect(mobx.getFlowSignal()).toBe(undefined)
+})
+
+test("flows started with an aborted signal don't run", async () => {
+    let runs = 0
+    const start = flow(function*() {
+        runs++
+    })
+    const controller = new AbortController()
+    controller.abort()
+    await expect(start.withSignal(controller.signal)()).rejects.toEqual(
+        new Error("FLOW_CANCELLED")
+    )
+    expect(runs).toBe(0)
+})
+
+test("flow signal is available in every step and aborted on cancel", async () => {
+    const signals = []
+    const start = flow(function*() {
+        signals.push(mobx.getFlowSignal())
+        yield delay(5)
+        signals.push(mobx.getFlowSignal())
+        yield delay(50)
+    })
+    const p = start()
+    await delay(20)
+    p.cancel()
+    await expect(p).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    expect(signals.length).toBe(2)
+    expect(signals[0]).toBe(signals[1])
+    expect(signals[0].aborted).toBe(true)
+})
+
+test("queued flows can be aborted with a signal before they start", async () => {
+    let runs = 0
+    const save = flow(
+        function*() {
+            runs++
+            yield delay(10)
+        },
+        { concurrency: "queue" }
+    )
+    const controller = new AbortController()
+    const p1 = save()
+    const p2 = save.withSignal(controller.signal)()
+    controller.abort()
+    await expect(p2).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    await p1
+    await delay(10)
+    expect(runs).toBe(1)
+})
+
+test("queued flows remove their abort listeners once settled", async () => {
+    const save = flow(
+        function*(id) {
+            yield delay(10)
+            return id
+        },
+        { concurrency: "queue" }
+    )
+    const signal = new AbortController().signal
+    const listeners = new Set()
+    const add = signal.addEventListener.bind(signal)
+    const remove = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (type, listener) => {
+        listeners.add(listener)
+        add(type, listener)
+    }
+    signal.removeEventListener = (type, listener) => {
+        listeners.delete(listener)
+        remove(type, listener)
+    }
+    expect(await save.withSignal(signal)(1)).toBe(1)
+    expect(await save.withSignal(signal)(2)).toBe(2)
+    expect(listeners.size).toBe(0)
+})
+
+test("tracked flows expose the state of their latest run", async () => {
+    const load = flow.tracked(function* load(id, shouldFail) {
+        yield delay(5)
+        if (shouldFail) throw new Error("failed " + id)
+        return "item " + id
+    })
+    const states = []
+    const d = mobx.autorun(() =>
+        states.push([load.state, load.value, load.error && load.error.message, load.runCount])
+    )
+
+    expect(await load(1)).toBe("item 1")
+    await expect(load(2, true)).rejects.toEqual(new Error("failed 2"))
+    expect(states).toEqual([
+        ["idle", undefined, undefined, 0],
+        ["pending", undefined, undefined, 1],
+        ["fulfilled", "item 1", undefined, 1],
+        ["pending", "item 1", undefined, 2],
+        ["rejected", "item 1", "failed 2", 2]
+    ])
+    expect(mobx.isObservable(load.value)).toBe(false)
+    d()
+})
+
+test("tracked flows only reflect the latest run", async () => {
+    const search = flow.tracked(function*(query, time) {
+        yield delay(time)
+        return query
+    })
+    const p1 = search("a", 20)
+    const p2 = search("ab", 5)
+    expect(await p2).toBe("ab")
+    expect(await p1).toBe("a")
+    expect(search.state).toBe("fulfilled")
+    expect(search.value).toBe("ab")
+    expect(search.runCount).toBe(2)
+})
+
+test("tracked flows support concurrency and signals", async () => {
+    const save = flow.tracked(
+        function*() {
+            yield delay(5)
+            return "saved"
+        },
+        { concurrency: "exhaust" }
+    )
+    const p1 = save()
+    expect(save()).toBe(p1)
+    expect(save.runCount).toBe(1)
+    await p1
+
+    const controller = new AbortController()
+    const p2 = save.withSignal(controller.signal)()
+    expect(save.state).toBe("pending")
+    controller.abort()
+    await expect(p2).rejects.toEqual(new Error("FLOW_CANCELLED"))
+    expect(save.state).toBe("rejected")
+    expect(save.error.message).toBe("FLOW_CANCELLED")
+    expect(save.runCount).toBe(2)
+})
+
+test("tracked flows update their state in actions", async () => {
+    mobx.configure({ enforceActions: "always" })
+    try {
+        const run = flow.tracked(function*() {
+            yield delay(1)
+            return 1
+        })
+        expect(await run()).toBe(1)
+        expect(run.state).toBe("fulfilled")
+    } finally {
+        mobx.configure({ enforceActions: "never" })
+    }
+})
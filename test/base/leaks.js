@@ -0,0 +1,68 @@
+"use strict"
+
+var mobx = require("../../src/mobx.ts")
+var utils = require("../utils/test-utils")
+
+beforeEach(() => {
+    mobx.configure({ trackReactions: true })
+})
+
+afterEach(() => {
+    mobx.configure({ trackReactions: false })
+})
+
+test("active reactions are registered until disposed", function() {
+    var x = mobx.observable.box(1)
+    var d1 = mobx.autorun(() => x.get(), { name: "first" })
+    var d2 = mobx.reaction(() => x.get(), () => {}, { name: "second" })
+
+    var active = mobx.getActiveReactions()
+    expect(active.map(entry => entry.name)).toEqual(["first", "second"])
+    expect(active[0].reaction).toBe(d1.$mobx)
+    expect(active[0].age).toBeGreaterThanOrEqual(0)
+    expect(active[0].creationStack).toMatch(/leaks\.js/)
+
+    d1()
+    expect(mobx.getActiveReactions().map(entry => entry.name)).toEqual(["second"])
+    d2()
+    expect(mobx.getActiveReactions()).toEqual([])
+})
+
+test("reactions that dispose themselves are not active", function() {
+    var x = mobx.observable.box(1)
+    mobx.when(() => x.get() > 1, () => {})
+    mobx.autorun(r => r.dispose())
+    expect(mobx.getActiveReactions().length).toBe(1)
+    x.set(2)
+    expect(mobx.getActiveReactions()).toEqual([])
+})
+
+test("reportLeaks warns about reactions that were not disposed", function() {
+    var x = mobx.observable.box(1)
+    var d = mobx.autorun(() => x.get(), { name: "leaky" })
+    var leaks
+    utils.consoleWarn(() => {
+        leaks = mobx.reportLeaks()
+    }, /\[mobx\] 1 reaction\(s\) have not been disposed:\n- leaky\n/)
+    expect(leaks.map(leak => leak.name)).toEqual(["leaky"])
+
+    expect(mobx.reportLeaks({ olderThan: 60 * 1000 })).toEqual([])
+    d()
+    expect(mobx.reportLeaks()).toEqual([])
+})
+
+test("creation stacks are only captured while tracking reactions", function() {
+    mobx.configure({ trackReactions: false })
+    var x = mobx.observable.box(1)
+    var d = mobx.autorun(() => x.get(), { name: "untracked" })
+    expect(d.$mobx.creationStack).toBe(undefined)
+
+    mobx.configure({ trackReactions: true })
+    expect(mobx.getActiveReactions()).toEqual([])
+    x.set(2)
+    var active = mobx.getActiveReactions()
+    expect(active.map(entry => entry.name)).toEqual(["untracked"])
+    expect(active[0].creationStack).toBe(undefined)
+    expect(active[0].age).toBeLessThan(60 * 1000)
+    d()
+})
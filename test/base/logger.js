@@ -0,0 +1,89 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, createLogger } = mobx
+
+function createStore() {
+    return observable(
+        {
+            todos: [{ title: "a" }],
+            tags: observable.map({}, { name: "tags" }),
+            get count() {
+                return this.todos.length
+            }
+        },
+        {},
+        { name: "store" }
+    )
+}
+
+test("logger logs nested events", () => {
+    const store = createStore()
+    const lines = []
+    const d = mobx.autorun(() => store.count, { name: "counter" })
+    const stop = createLogger({ sink: lines })
+
+    mobx.runInAction("addTodo", () => {
+        store.todos.push({ title: "b" })
+        store.todos[0].title = "A"
+        store.tags.set("urgent", true)
+    })
+    stop()
+    store.tags.delete("urgent")
+    d()
+
+    expect(lines).toEqual([
+        "[action] addTodo()",
+        '  [add] store.todos[..].title: "b"',
+        "  [splice] store.todos[1]: removed [], added [store.todos[..]]",
+        '  [update] store.todos[..].title: "a" -> "A"',
+        "  [add] tags.urgent: true",
+        "  [compute] store.count",
+        "  [reaction] counter"
+    ])
+})
+
+test("logger filters by type and name", () => {
+    const store = createStore()
+    const lines = []
+    const stop = createLogger({ sink: lines, types: ["update", "splice"], name: /title/ })
+    mobx.runInAction(() => {
+        store.todos.push({ title: "b" })
+        store.todos[0].title = "A"
+    })
+    store.todos[1].title = "B"
+    stop()
+
+    expect(lines).toEqual([
+        '[update] store.todos[..].title: "a" -> "A"',
+        '[update] store.todos[..].title: "b" -> "B"'
+    ])
+})
+
+test("logger writes to streams", () => {
+    let output = ""
+    const box = observable.box(1, { name: "box" })
+    const stop = createLogger({ sink: { write: text => (output += text) }, indent: "-" })
+    box.set(2)
+    stop()
+    expect(output).toBe("[update] box: 1 -> 2\n")
+})
+
+test("logger logs to the console by default", () => {
+    const log = console.log
+    const lines = []
+    console.log = line => lines.push(line)
+    try {
+        const box = observable.box(1, { name: "box" })
+        const stop = createLogger()
+        mobx.action("change", () => box.set(2))()
+        stop()
+    } finally {
+        console.log = log
+    }
+    expect(lines).toEqual(["[action] change()", "  [update] box: 1 -> 2"])
+})
+
+test("logger rejects invalid sinks", () => {
+    expect(() => createLogger({ sink: 42 })).toThrow(/Invalid sink/)
+})
@@ -0,0 +1,194 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, optimistic, flow } = mobx
+
+function delay(time, value, shouldThrow = false) {
+    return new Promise((resolve, reject) => {
+        setTimeout(() => {
+            if (shouldThrow) reject(value)
+            else resolve(value)
+        }, time)
+    })
+}
+
+function createStore() {
+    return observable({
+        todos: [{ title: "a", done: false }],
+        tags: observable.map({ urgent: true })
+    })
+}
+
+test("optimistic updates can be reverted", () => {
+    const store = createStore()
+    const values = []
+    const d = mobx.autorun(() =>
+        values.push(store.todos.map(t => t.title + (t.done ? "!" : "")).join(","))
+    )
+
+    const update = optimistic("addTodo", () => {
+        store.todos[0].done = true
+        store.todos.push({ title: "b", done: false })
+        store.tags.delete("urgent")
+        return store.todos.length
+    })
+    expect(update.result).toBe(2)
+    expect(update.state).toBe("pending")
+    expect(values).toEqual(["a", "a!,b"])
+
+    update.revert()
+    expect(update.state).toBe("reverted")
+    expect(values).toEqual(["a", "a!,b", "a"])
+    expect(store.tags.get("urgent")).toBe(true)
+    expect(() => update.commit()).toThrow(
+        /\[addTodo\] Cannot commit, the update has already been reverted/
+    )
+    d()
+})
+
+test("committed optimistic updates can no longer be reverted", () => {
+    const store = createStore()
+    const update = optimistic(() => (store.todos[0].title = "b"))
+    update.commit()
+    expect(update.state).toBe("committed")
+    expect(() => update.revert()).toThrow(/Cannot revert/)
+    expect(store.todos[0].title).toBe("b")
+})
+
+test("optimistic updates that throw are reverted immediately", () => {
+    const store = createStore()
+    expect(() =>
+        optimistic(() => {
+            store.todos[0].title = "b"
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(store.todos[0].title).toBe("a")
+})
+
+test("optimistic updates run in an action", () => {
+    mobx.configure({ enforceActions: true })
+    try {
+        const store = createStore()
+        const update = optimistic(() => (store.todos[0].title = "b"))
+        const states = []
+        const d = mobx.autorun(() => states.push(update.state))
+        update.revert()
+        expect(store.todos[0].title).toBe("a")
+        expect(states).toEqual(["pending", "reverted"])
+        d()
+    } finally {
+        mobx.configure({ enforceActions: false })
+    }
+})
+
+test("settleWith commits or reverts in a flow", () => {
+    const store = createStore()
+    const save = flow(function*(title, shouldFail) {
+        const update = optimistic(() => (store.todos[0].title = title))
+        yield update.settleWith(delay(10, "ok", shouldFail))
+        return update.state
+    })
+
+    return save("b", false)
+        .then(state => {
+            expect(state).toBe("committed")
+            expect(store.todos[0].title).toBe("b")
+            return save("c", true)
+        })
+        .then(
+            () => {
+                throw new Error("should fail")
+            },
+            error => {
+                expect(error).toBe("ok")
+                expect(store.todos[0].title).toBe("b")
+            }
+        )
+})
+
+test("cancelling a flow reverts a pending optimistic update", () => {
+    const store = createStore()
+    let update
+    const save = flow(function*() {
+        update = optimistic(() => (store.todos[0].title = "b"))
+        yield update.settleWith(delay(10))
+    })
+
+    const promise = save()
+    expect(store.todos[0].title).toBe("b")
+    promise.cancel()
+    expect(update.state).toBe("reverted")
+    expect(store.todos[0].title).toBe("a")
+    return promise.then(
+        () => {
+            throw new Error("should fail")
+        },
+        error => expect(error.message).toBe("FLOW_CANCELLED")
+    )
+})
+
+test("optimistic updates are reverted by a failing enclosing atomic action", () => {
+    const store = createStore()
+    let update
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            update = optimistic(() => (store.todos[0].title = "b"))
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(store.todos[0].title).toBe("a")
+    expect(update.state).toBe("reverted")
+    expect(() => update.revert()).toThrow(/already been reverted/)
+
+    // a committed update is reverted as well
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            update = optimistic(() => (store.todos[0].title = "c"))
+            update.commit()
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(store.todos[0].title).toBe("a")
+    expect(update.state).toBe("reverted")
+})
+
+test("reverting does not run interceptors", () => {
+    const store = createStore()
+    mobx.intercept(store.todos[0], change => (change.newValue === "a" ? null : change))
+    const update = optimistic(() => (store.todos[0].title = "b"))
+    update.revert()
+    expect(store.todos[0].title).toBe("a")
+})
+
+test("reverting fails if an array was changed at the reverted positions", () => {
+    const todos = observable(["a", "b"])
+    const tags = observable.map({ urgent: true })
+    const update = optimistic("addTodo", () => {
+        tags.delete("urgent")
+        todos.push("opt")
+    })
+    mobx.runInAction(() => todos.unshift("z"))
+
+    expect(() => update.revert()).toThrow(
+        /Cannot revert the changes to '.*', it was changed at index 2 after they were made/
+    )
+    // nothing was reverted
+    expect(update.state).toBe("pending")
+    expect(todos.slice()).toEqual(["z", "a", "b", "opt"])
+    expect(tags.has("urgent")).toBe(false)
+    update.commit()
+})
+
+test("reverting succeeds if an array was only changed after the reverted positions", () => {
+    const todos = observable(["a", "b"])
+    const update = optimistic(() => {
+        todos[1] = "B"
+        todos.push("opt")
+    })
+    todos.push("c")
+    update.revert()
+    expect(update.state).toBe("reverted")
+    expect(todos.slice()).toEqual(["a", "b", "c"])
+})
+
@@ -0,0 +1,136 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, getSnapshot, onPatch, applyPatch } = mobx
+
+function createStore() {
+    return observable({
+        title: "todos",
+        todos: [{ title: "a", done: false }, { title: "b", done: true }],
+        tags: observable.map({ urgent: { color: "red" } })
+    })
+}
+
+test("getSnapshot", () => {
+    const store = createStore()
+    const snapshot = getSnapshot(store)
+    expect(snapshot).toEqual({
+        title: "todos",
+        todos: [{ title: "a", done: false }, { title: "b", done: true }],
+        tags: { urgent: { color: "red" } }
+    })
+    expect(mobx.isObservable(snapshot)).toBe(false)
+    expect(mobx.isObservable(snapshot.todos)).toBe(false)
+})
+
+test("onPatch reports patches with paths", () => {
+    const store = createStore()
+    const patches = []
+    const reversePatches = []
+    const d = onPatch(store, (patch, reversePatch) => {
+        patches.push(patch)
+        reversePatches.push(reversePatch)
+    })
+
+    store.title = "my todos"
+    store.todos[1].done = false
+    store.todos.unshift({ title: "c", done: false })
+    store.todos[2].title = "B"
+    store.tags.get("urgent").color = "orange"
+    store.tags.set("some/thing", 1)
+    store.tags.delete("urgent")
+    mobx.set(store, "owner", { name: "michel" })
+    store.owner.name = "mweststrate"
+    mobx.remove(store, "owner")
+
+    expect(patches).toEqual([
+        { op: "replace", path: "/title", value: "my todos" },
+        { op: "replace", path: "/todos/1/done", value: false },
+        { op: "add", path: "/todos/0", value: { title: "c", done: false } },
+        { op: "replace", path: "/todos/2/title", value: "B" },
+        { op: "replace", path: "/tags/urgent/color", value: "orange" },
+        { op: "add", path: "/tags/some~1thing", value: 1 },
+        { op: "remove", path: "/tags/urgent" },
+        { op: "add", path: "/owner", value: { name: "michel" } },
+        { op: "replace", path: "/owner/name", value: "mweststrate" },
+        { op: "remove", path: "/owner" }
+    ])
+    expect(reversePatches[1]).toEqual({ op: "replace", path: "/todos/1/done", value: true })
+    expect(reversePatches[6]).toEqual({
+        op: "add",
+        path: "/tags/urgent",
+        value: { color: "orange" }
+    })
+
+    d()
+    store.title = "disposed"
+    expect(patches.length).toBe(10)
+})
+
+test("onPatch stops listening to removed children", () => {
+    const store = createStore()
+    const patches = []
+    onPatch(store, patch => patches.push(patch))
+
+    const removed = store.todos.shift()
+    removed.done = true
+    expect(patches).toEqual([{ op: "remove", path: "/todos/0" }])
+})
+
+test("applyPatch", () => {
+    const store = createStore()
+    applyPatch(store, [
+        { op: "replace", path: "/title", value: "patched" },
+        { op: "add", path: "/todos/-", value: { title: "c", done: false } },
+        { op: "remove", path: "/todos/0" },
+        { op: "replace", path: "/todos/0/done", value: false },
+        { op: "add", path: "/tags/normal", value: { color: "green" } },
+        { op: "remove", path: "/tags/urgent" }
+    ])
+    expect(getSnapshot(store)).toEqual({
+        title: "patched",
+        todos: [{ title: "b", done: false }, { title: "c", done: false }],
+        tags: { normal: { color: "green" } }
+    })
+    expect(mobx.isObservableObject(store.todos[1])).toBe(true)
+    expect(() => applyPatch(store, { op: "add", path: "/nope/x", value: 1 })).toThrow(
+        /Cannot apply patch '\/nope\/x'/
+    )
+    expect(() => applyPatch(store, { op: "add", path: "/title/x/y", value: 1 })).toThrow(
+        /Cannot resolve path '\/title\/x\/y'/
+    )
+})
+
+test("applyPatch runs in an action", () => {
+    mobx.configure({ enforceActions: true })
+    try {
+        const store = createStore()
+        const values = []
+        const d = mobx.autorun(() => values.push(store.title + store.todos.length))
+        applyPatch(store, [
+            { op: "replace", path: "/title", value: "x" },
+            { op: "remove", path: "/todos/0" }
+        ])
+        expect(values).toEqual(["todos2", "x1"])
+        d()
+    } finally {
+        mobx.configure({ enforceActions: false })
+    }
+})
+
+test("reverse patches restore the original state", () => {
+    const store = createStore()
+    const original = getSnapshot(store)
+    const reversePatches = []
+    const d = onPatch(store, (_, reversePatch) => reversePatches.unshift(reversePatch))
+
+    mobx.runInAction(() => {
+        store.todos.splice(0, 2, { title: "x", done: true })
+        store.todos[0].done = false
+        store.tags.clear()
+        store.title = "changed"
+    })
+    d()
+    applyPatch(store, reversePatches)
+    expect(getSnapshot(store)).toEqual(original)
+})
@@ -0,0 +1,87 @@
+"use strict"
+
+var mobx = require("../../src/mobx.ts")
+
+test("profiler reports counts per name", function() {
+    var store = mobx.observable({
+        price: 3,
+        amount: 2,
+        get total() {
+            return this.price * this.amount
+        }
+    })
+    var d = mobx.autorun(function render() {
+        store.total
+    })
+    var setPrice = mobx.action("setPrice", function(price) {
+        store.price = price
+    })
+
+    mobx.startProfiling()
+    setPrice(4)
+    setPrice(5)
+    var report = mobx.stopProfiling()
+    setPrice(6)
+    d()
+
+    function entry(type, name) {
+        return report.entries.filter(e => e.type === type && e.name === name)[0]
+    }
+    expect(entry("action", "setPrice").count).toBe(2)
+    expect(entry("reaction", "render").count).toBe(2)
+    expect(entry("compute", store.$mobx.values.total.name).count).toBe(2)
+    expect(report.entries.length).toBe(3)
+    report.entries.forEach(e => {
+        expect(e.totalTime).toBeGreaterThanOrEqual(0)
+        expect(e.selfTime).toBeLessThanOrEqual(e.totalTime)
+    })
+    for (var i = 1; i < report.entries.length; i++)
+        expect(report.entries[i - 1].totalTime).toBeGreaterThanOrEqual(report.entries[i].totalTime)
+})
+
+test("self time excludes nested runs", function() {
+    var inner = mobx.action("inner", function() {
+        var end = Date.now() + 5
+        while (Date.now() < end);
+    })
+    var outer = mobx.action("outer", function() {
+        inner()
+    })
+    mobx.startProfiling()
+    outer()
+    var report = mobx.stopProfiling()
+    var outerEntry = report.entries.filter(e => e.name === "outer")[0]
+    var innerEntry = report.entries.filter(e => e.name === "inner")[0]
+    expect(report.entries[0]).toBe(outerEntry)
+    expect(innerEntry.totalTime).toBeGreaterThanOrEqual(4)
+    expect(outerEntry.selfTime).toBeCloseTo(outerEntry.totalTime - innerEntry.totalTime, 5)
+})
+
+test("profiler exports chrome trace events", function() {
+    var outer = mobx.action("outer", function() {
+        inner()
+    })
+    var inner = mobx.action("inner", function() {})
+    mobx.startProfiling()
+    outer()
+    var trace = mobx.stopProfiling().toChromeTrace()
+
+    expect(trace.traceEvents.map(e => [e.name, e.cat, e.ph])).toEqual([
+        ["outer", "action", "X"],
+        ["inner", "action", "X"]
+    ])
+    var o = trace.traceEvents[0]
+    var i = trace.traceEvents[1]
+    expect(o.pid).toBe(1)
+    expect(o.tid).toBe(1)
+    expect(i.ts).toBeGreaterThanOrEqual(o.ts)
+    expect(i.ts + i.dur).toBeLessThanOrEqual(o.ts + o.dur + 1)
+    expect(JSON.parse(JSON.stringify(trace))).toEqual(trace)
+})
+
+test("profiler can only run once at a time", function() {
+    expect(() => mobx.stopProfiling()).toThrow(/has not been started/)
+    mobx.startProfiling()
+    expect(() => mobx.startProfiling()).toThrow(/has already been started/)
+    expect(mobx.stopProfiling().entries).toEqual([])
+})
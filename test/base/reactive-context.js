@@ -0,0 +1,153 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, autorun, createReactiveContext, runInContext } = mobx
+
+test("reactive contexts have their own batches", () => {
+    const ctx = createReactiveContext()
+    const outer = observable.box(1)
+    const values = []
+    const d1 = autorun(() => values.push("outer " + outer.get()))
+
+    let d2
+    mobx.transaction(() => {
+        outer.set(2)
+        runInContext(ctx, () => {
+            const inner = observable.box(1)
+            d2 = autorun(() => values.push("inner " + inner.get()))
+            inner.set(2)
+            expect(mobx._getGlobalState().inBatch).toBe(0)
+        })
+        expect(mobx._getGlobalState().inBatch).toBe(1)
+    })
+    expect(values).toEqual(["outer 1", "inner 1", "inner 2", "outer 2"])
+    d1()
+    runInContext(ctx, d2)
+})
+
+test("reactive contexts are not tracked by the calling derivation", () => {
+    const ctx = createReactiveContext()
+    const inner = runInContext(ctx, () => observable.box(1))
+    let runs = 0
+    const d = autorun(() => {
+        runs++
+        runInContext(ctx, () => inner.get())
+    })
+    runInContext(ctx, () => inner.set(2))
+    expect(runs).toBe(1)
+    d()
+})
+
+test("reactive contexts have their own configuration", () => {
+    const ctx = createReactiveContext()
+    runInContext(ctx, () => {
+        mobx.configure({ enforceActions: true })
+        const box = observable.box(1)
+        const d = autorun(() => box.get())
+        expect(() => box.set(2)).toThrow(/strict-mode/)
+        d()
+    })
+    const box = observable.box(1)
+    const d = autorun(() => box.get())
+    box.set(2)
+    expect(box.get()).toBe(2)
+    d()
+})
+
+test("reactive contexts can be interleaved", () => {
+    const contexts = [createReactiveContext(), createReactiveContext()]
+    const stores = contexts.map(ctx => runInContext(ctx, () => observable({ count: 0 })))
+    const values = []
+    const disposers = contexts.map((ctx, i) =>
+        runInContext(ctx, () => autorun(() => values.push(i + ":" + stores[i].count)))
+    )
+    const increment = mobx.action(store => store.count++)
+    runInContext(contexts[1], () => increment(stores[1]))
+    runInContext(contexts[0], () => increment(stores[0]))
+    expect(values).toEqual(["0:0", "1:0", "1:1", "0:1"])
+    disposers.forEach((d, i) => runInContext(contexts[i], d))
+})
+
+test("observables keep using the context they were created in", () => {
+    const ctx = createReactiveContext()
+    const values = []
+    const { box, double, dispose } = runInContext(ctx, () => {
+        const box = observable.box(1)
+        const double = mobx.computed(() => box.get() * 2)
+        const dispose = autorun(() => values.push(double.get()))
+        return { box, double, dispose }
+    })
+
+    box.set(2)
+    expect(values).toEqual([2, 4])
+    expect(double.get()).toBe(4)
+    expect(mobx._getGlobalState().pendingReactions).toEqual([])
+    dispose()
+    box.set(3)
+    expect(values).toEqual([2, 4])
+})
+
+test("derivations cannot observe observables of another context", () => {
+    const ctx = createReactiveContext()
+    const box = runInContext(ctx, () => observable.box(1))
+    const double = runInContext(ctx, () => mobx.computed(() => box.get() * 2))
+    const errors = []
+    const d = autorun(
+        () => {
+            box.get()
+        },
+        { name: "reader", onError: e => errors.push(e.message) }
+    )
+    const d2 = autorun(() => double.get(), { onError: e => errors.push(e.message) })
+    expect(errors).toEqual([
+        "[mobx] 'reader' cannot observe '" + box.name + "', as it belongs to another reactive context",
+        expect.stringMatching(/cannot observe 'ComputedValue@\d+', as it belongs to another/)
+    ])
+    // untracked reads are fine
+    expect(box.get()).toBe(1)
+    expect(mobx.untracked(() => double.get())).toBe(2)
+    d()
+    d2()
+})
+
+test("observables cannot be changed by an action of another context", () => {
+    const ctx = createReactiveContext()
+    const runs = []
+    const { box, list, dispose } = runInContext(ctx, () => {
+        const box = observable.box(1)
+        const list = observable([1])
+        const dispose = autorun(() => runs.push(box.get() + list.length))
+        return { box, list, dispose }
+    })
+    expect(() => mobx.runInAction(() => box.set(2))).toThrow(
+        /cannot be changed inside an action or batch of the current context/
+    )
+    expect(() => mobx.transaction(() => list.push(2))).toThrow(/another reactive context/)
+    expect(box.get()).toBe(1)
+    expect(list.length).toBe(1)
+    // actions of the right context batch as usual
+    runInContext(
+        ctx,
+        mobx.action(() => {
+            box.set(2)
+            list.push(2)
+        })
+    )
+    expect(runs).toEqual([2, 4])
+    runInContext(ctx, dispose)
+})
+
+test("observables created in a context respect its configuration outside of it", () => {
+    const ctx = createReactiveContext()
+    const box = runInContext(ctx, () => {
+        mobx.configure({ enforceActions: "always" })
+        return observable.box(1)
+    })
+    expect(() => box.set(2)).toThrow(/strict-mode/)
+    runInContext(ctx, mobx.action(() => box.set(2)))
+    expect(box.get()).toBe(2)
+})
+
+test("runInContext expects a reactive context", () => {
+    expect(() => runInContext({}, () => {})).toThrow(/createReactiveContext/)
+})
@@ -0,0 +1,113 @@
+"use strict"
+
+var mobx = require("../../src/mobx.ts")
+
+beforeEach(() => {
+    mobx.configure({ recomputeStats: true })
+    mobx.resetRecomputeStats()
+})
+
+afterEach(() => {
+    mobx.configure({ recomputeStats: false })
+})
+
+function statsOf(type, name) {
+    return mobx.getRecomputeStats().filter(s => s.type === type && s.name === name)[0]
+}
+
+test("computed values that produce an equal value are wasted", function() {
+    var x = mobx.observable.box(1)
+    var isPositive = mobx.computed(() => x.get() > 0, { name: "isPositive" })
+    var d = mobx.autorun(() => isPositive.get())
+
+    x.set(2)
+    x.set(3)
+    x.set(-1)
+    expect(statsOf("computed", "isPositive")).toEqual({
+        name: "isPositive",
+        type: "computed",
+        runs: 4,
+        wasted: 2
+    })
+    d()
+})
+
+test("structural comparer avoids wasted recomputations", function() {
+    var x = mobx.observable.box(1)
+    var point = mobx.computed(() => ({ x: x.get() > 0 }), { name: "point" })
+    var structuralPoint = mobx.computed(() => ({ x: x.get() > 0 }), {
+        name: "structuralPoint",
+        equals: mobx.comparer.structural
+    })
+    var d = mobx.autorun(() => {
+        point.get()
+        structuralPoint.get()
+    })
+    x.set(2)
+    expect(statsOf("computed", "point").wasted).toBe(0)
+    expect(statsOf("computed", "structuralPoint").wasted).toBe(1)
+    d()
+})
+
+test("reactions that don't run their effect are wasted", function() {
+    var store = mobx.observable({ a: 1, b: 1 })
+    var effects = 0
+    var d = mobx.reaction(() => store.a + store.b, () => effects++, { name: "sum" })
+
+    mobx.runInAction(() => {
+        store.a = 2
+        store.b = 0
+    })
+    store.a = 3
+    expect(effects).toBe(1)
+    expect(statsOf("reaction", "sum")).toEqual({
+        name: "sum",
+        type: "reaction",
+        runs: 3,
+        wasted: 1
+    })
+    d()
+})
+
+test("the runs of all reactions are counted", function() {
+    var x = mobx.observable.box(1)
+    var d1 = mobx.autorun(() => x.get(), { name: "autorun" })
+    var d2 = mobx.when(() => x.get() > 2, () => {}, { name: "when" })
+    x.set(2)
+    x.set(3)
+    expect(statsOf("reaction", "autorun")).toEqual({
+        name: "autorun",
+        type: "reaction",
+        runs: 3,
+        wasted: 0
+    })
+    expect(statsOf("reaction", "when").runs).toBe(3)
+    d1()
+    d2()
+})
+
+test("stats are sorted by wasted runs and can be reset", function() {
+    var x = mobx.observable.box(1)
+    var a = mobx.computed(() => x.get() > 0, { name: "a" })
+    var b = mobx.computed(() => x.get() * 2, { name: "b" })
+    var d = mobx.autorun(() => b.get() && a.get())
+    x.set(2)
+    var stats = mobx.getRecomputeStats().filter(s => s.type === "computed")
+    expect(stats.map(s => s.name)).toEqual(["a", "b"])
+    expect(stats.map(s => s.runs)).toEqual([2, 2])
+    expect(stats.map(s => s.wasted)).toEqual([1, 0])
+
+    mobx.resetRecomputeStats()
+    expect(mobx.getRecomputeStats()).toEqual([])
+    d()
+})
+
+test("nothing is recorded unless enabled", function() {
+    mobx.configure({ recomputeStats: false })
+    var x = mobx.observable.box(1)
+    var c = mobx.computed(() => x.get() > 0)
+    var d = mobx.autorun(() => c.get())
+    x.set(2)
+    expect(mobx.getRecomputeStats()).toEqual([])
+    d()
+})
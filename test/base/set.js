@@ -0,0 +1,164 @@
+"use strict"
+
+var mobx = require("../../src/mobx.ts")
+var set = mobx.observable.set
+var autorun = mobx.autorun
+
+test("set crud", function() {
+    var events = []
+    var s = set([1])
+    s.observe(function(changes) {
+        events.push(changes)
+    })
+
+    expect(s.has(1)).toBe(true)
+    expect(s.has("1")).toBe(false)
+    expect(s.size).toBe(1)
+
+    s.add("2")
+    s.add("2")
+    expect(s.has("2")).toBe(true)
+    expect(s.size).toBe(2)
+    expect(mobx.values(s)).toEqual([1, "2"])
+    expect(Array.from(s)).toEqual([1, "2"])
+    expect(Array.from(s.entries())).toEqual([[1, 1], ["2", "2"]])
+    expect(s.toJS()).toEqual(new Set([1, "2"]))
+    expect(JSON.stringify(s)).toEqual('[1,"2"]')
+    expect(s.toString()).toMatch(/^ObservableSet@\d+\[ 1, 2 \]$/)
+    expect(Object.prototype.toString.call(s)).toBe("[object Set]")
+
+    expect(s.delete(1)).toBe(true)
+    expect(s.delete(1)).toBe(false)
+    s.clear()
+    expect(s.size).toBe(0)
+
+    expect(events).toEqual([
+        { object: s, newValue: "2", type: "add" },
+        { object: s, oldValue: 1, type: "delete" },
+        { object: s, oldValue: "2", type: "delete" }
+    ])
+})
+
+test("observe and intercept", function() {
+    var s = set()
+    var d = mobx.intercept(s, change => {
+        if (change.type === "add" && change.newValue === "forbidden") return null
+        if (change.type === "add") change.newValue = change.newValue.toUpperCase()
+        return change
+    })
+    var events = []
+    mobx.observe(s, change => events.push(change.type))
+
+    s.add("a")
+    s.add("forbidden")
+    s.delete("A")
+    expect(events).toEqual(["add", "delete"])
+    expect(s.size).toBe(0)
+    d()
+})
+
+test("set is reactive", function() {
+    var s = set()
+    var values = []
+    var d = autorun(() => values.push(s.has("a") + ":" + mobx.values(s).join(",")))
+
+    s.add("a")
+    s.add("b")
+    mobx.remove(s, "a")
+    mobx.transaction(() => {
+        s.replace(["x", "y"])
+    })
+    expect(values).toEqual(["false:", "true:a", "true:a,b", "false:b", "false:x,y"])
+    expect(mobx.has(s, "x")).toBe(true)
+    d()
+})
+
+test("enhancers", function() {
+    var deep = set([{ a: 1 }])
+    var item = Array.from(deep)[0]
+    expect(mobx.isObservableObject(item)).toBe(true)
+
+    var shallow = set([{ a: 1 }], { deep: false })
+    expect(mobx.isObservableObject(Array.from(shallow)[0])).toBe(false)
+
+    var store = mobx.observable(
+        {
+            tags: new Set(["a"]),
+            ref: new Set(["b"])
+        },
+        { ref: mobx.observable.ref }
+    )
+    expect(mobx.isObservableSet(store.tags)).toBe(true)
+    expect(mobx.isObservableSet(store.ref)).toBe(false)
+    expect(mobx.isObservableSet(mobx.observable(new Set()))).toBe(true)
+
+    var box = mobx.observable.box(new Set([1]))
+    expect(mobx.isObservableSet(box.get())).toBe(true)
+})
+
+test("toJS and isObservable", function() {
+    var s = set([{ a: 1 }, 2])
+    expect(mobx.isObservable(s)).toBe(true)
+    expect(mobx.isObservableSet(new Set())).toBe(false)
+    expect(mobx.isObservableMap(s)).toBe(false)
+    expect(() => mobx.isObservableProp(s, "a")).toThrow(/not supported for arrays, maps and sets/)
+
+    var js = mobx.toJS(s)
+    expect(js instanceof Set).toBe(true)
+    expect(mobx.isObservable(Array.from(js)[0])).toBe(false)
+    expect(Array.from(js)).toEqual([{ a: 1 }, 2])
+
+    expect(mobx.getAtom(s).name).toBe(s.name)
+    expect(mobx.getDebugName(s)).toBe(s.name)
+    expect(() => mobx.getAtom(s, "a")).toThrow(/not possible to get value atoms from sets/)
+})
+
+test("enforceActions", function() {
+    mobx.configure({ enforceActions: true })
+    try {
+        var s = set([1])
+        var d = autorun(() => s.size)
+        expect(() => s.add(2)).toThrow(/Since strict-mode is enabled/)
+        mobx.runInAction(() => s.add(2))
+        expect(s.size).toBe(2)
+        d()
+    } finally {
+        mobx.configure({ enforceActions: false })
+    }
+})
+
+test("atomic actions revert set changes", function() {
+    var s = set([1, 2])
+    expect(() =>
+        mobx.runInAtomicAction(() => {
+            s.delete(1)
+            s.add(3)
+            throw new Error("oops")
+        })
+    ).toThrow(/oops/)
+    expect(mobx.values(s).sort()).toEqual([1, 2])
+})
+
+test("adding the same plain object twice", function() {
+    var s = set()
+    var obj = { a: 1 }
+    s.add(obj)
+    s.add(obj)
+    expect(s.size).toBe(1)
+    expect(s.has(obj)).toBe(true)
+    var copy = Array.from(s)[0]
+    expect(mobx.isObservableObject(copy)).toBe(true)
+    expect(s.has(copy)).toBe(true)
+    s.add(copy)
+    expect(s.size).toBe(1)
+
+    expect(s.delete(obj)).toBe(true)
+    expect(s.size).toBe(0)
+    expect(s.has(obj)).toBe(false)
+    expect(s.delete(obj)).toBe(false)
+
+    s.add(obj)
+    expect(s.has(obj)).toBe(true)
+    expect(s.delete(Array.from(s)[0])).toBe(true)
+    expect(s.size).toBe(0)
+})
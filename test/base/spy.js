@@ -101,3 +101,102 @@ test("spy stop listen from handler, #1459", () => {
     mobx.spy(() => {})
     doStuff()
 })
+
+test("spy events have a known type and matching end events", () => {
+    const events = []
+    const stop = mobx.spy(c => events.push(c))
+    doStuff()
+    const s = mobx.observable.set([1])
+    s.add(2)
+    s.delete(1)
+    const m = mobx.observable.map({ a: 1 })
+    m.delete("a")
+    stop()
+
+    const types = [
+        "action",
+        "reaction",
+        "scheduled-reaction",
+        "compute",
+        "update",
+        "add",
+        "remove",
+        "delete",
+        "splice",
+        "create",
+        "error",
+        "report-end"
+    ]
+    let depth = 0
+    events.forEach(event => {
+        expect(types).toContain(event.type)
+        if (event.spyReportStart) depth++
+        if (event.type === "report-end") {
+            expect(event.spyReportEnd).toBe(true)
+            depth--
+        }
+        expect(depth >= 0).toBe(true)
+        if (event.type !== "report-end") expect(typeof event.name).toBe("string")
+        if (event.type === "update") expect(event.object).toBeTruthy()
+    })
+    expect(depth).toBe(0)
+})
+
+test("spy events have ids that describe causality", () => {
+    const store = mobx.observable({
+        x: 1,
+        get double() {
+            return this.x * 2
+        }
+    })
+    const d = mobx.autorun(() => store.double, { name: "autorun" })
+    const events = []
+    const stop = mobx.spy(e => events.push(e))
+    mobx.runInAction("change", () => {
+        store.x = 2
+    })
+    stop()
+    d()
+
+    const byId = {}
+    events.forEach(e => (byId[e.id] = e))
+    expect(Object.keys(byId).length).toBe(events.length)
+
+    const action = events.find(e => e.type === "action")
+    const update = events.find(e => e.type === "update")
+    const compute = events.find(e => e.type === "compute")
+    const reaction = events.find(e => e.type === "reaction")
+    expect(action.parentId).toBe(undefined)
+    expect(update.parentId).toBe(action.id)
+    // when the action ends, the computed value is recomputed to decide whether to run the reaction
+    expect(compute.parentId).toBe(action.id)
+    expect(reaction.parentId).toBe(action.id)
+    expect(compute.id < reaction.id).toBe(true)
+
+    // every end event points to the event it ends
+    events.filter(e => e.type === "report-end").forEach(e => {
+        expect(byId[e.parentId].spyReportStart).toBe(true)
+    })
+})
+
+test("spy events keep the right parent when a change listener throws", () => {
+    const store = mobx.observable({ x: 1 })
+    const list = mobx.observable([1])
+    const events = []
+    const stop = mobx.spy(e => events.push(e))
+    const d1 = mobx.observe(store, () => {
+        throw new Error("listener failed")
+    })
+    const d2 = mobx.observe(list, () => {
+        throw new Error("listener failed")
+    })
+    expect(() => (store.x = 2)).toThrow(/listener failed/)
+    expect(() => list.push(2)).toThrow(/listener failed/)
+    d1()
+    d2()
+    mobx.runInAction("after", () => {})
+    stop()
+
+    expect(events.find(e => e.type === "action").parentId).toBe(undefined)
+    expect(events.filter(e => e.type === "report-end").length).toBe(3)
+})
@@ -202,3 +202,128 @@ test("warn on unsafe reads", function() {
         mobx.configure({ computedRequiresReaction: false })
     }
 })
+
+test("enforceActions 'observed' only protects observed state", function() {
+    mobx.configure({ enforceActions: "observed" })
+    try {
+        const x = mobx.observable.box(1)
+        x.set(2)
+        expect(x.get()).toBe(2)
+
+        const d = mobx.autorun(() => x.get())
+        expect(() => x.set(3)).toThrow(/Since strict-mode is enabled, changing observed/)
+        d()
+        x.set(4)
+        expect(x.get()).toBe(4)
+    } finally {
+        mobx.configure({ enforceActions: "never" })
+    }
+})
+
+test("enforceActions 'always' protects all state", function() {
+    mobx.configure({ enforceActions: "always" })
+    try {
+        // creating observables is fine
+        const box = mobx.observable.box(1)
+        const obj = mobx.observable({ a: 1 })
+        const arr = mobx.observable([1, 2])
+        const map = mobx.observable.map({ a: 1 })
+        const set = mobx.observable.set([1])
+
+        expect(() => box.set(2)).toThrow(/changing observable values outside actions/)
+        expect(() => (obj.a = 2)).toThrow(/changing observable values outside actions/)
+        expect(() => arr.push(3)).toThrow(/changing observable values outside actions/)
+        expect(() => (arr[0] = 3)).toThrow(/changing observable values outside actions/)
+        expect(() => map.set("a", 2)).toThrow(/changing observable values outside actions/)
+        expect(() => map.delete("a")).toThrow(/changing observable values outside actions/)
+        expect(() => set.add(2)).toThrow(/changing observable values outside actions/)
+
+        mobx.runInAction(() => {
+            box.set(2)
+            obj.a = 2
+            arr.push(3)
+            map.set("a", 2)
+            set.add(2)
+        })
+        expect(box.get()).toBe(2)
+        expect(obj.a).toBe(2)
+        expect(arr.slice()).toEqual([1, 2, 3])
+        expect(map.get("a")).toBe(2)
+        expect(set.size).toBe(2)
+    } finally {
+        mobx.configure({ enforceActions: "never" })
+    }
+})
+
+test("enforceActions 'never' allows changes outside actions", function() {
+    mobx.configure({ enforceActions: "always" })
+    mobx.configure({ enforceActions: "never" })
+    const x = mobx.observable.box(1)
+    const d = mobx.autorun(() => x.get())
+    x.set(2)
+    expect(x.get()).toBe(2)
+    d()
+})
+
+test("enforceActions is stored as configured", function() {
+    const globalState = mobx._getGlobalState()
+    expect(globalState.enforceActions).toBe("never")
+    mobx.configure({ enforceActions: "always" })
+    expect(globalState.enforceActions).toBe("always")
+    mobx.configure({ enforceActions: true })
+    expect(globalState.enforceActions).toBe("observed")
+    mobx.configure({ enforceActions: false })
+    expect(globalState.enforceActions).toBe("never")
+})
+
+test("enforceActions rejects invalid values", function() {
+    expect(() => mobx.configure({ enforceActions: "sometimes" })).toThrow(
+        /Invalid value for 'enforceActions'/
+    )
+})
+
+test("warn on unsafe reads of observables", function() {
+    try {
+        mobx.configure({ observableRequiresReaction: true })
+        const x = mobx.observable({
+            y: 3,
+            get yy() {
+                return this.y * 2
+            }
+        })
+        const arr = mobx.observable([1])
+        utils.consoleWarn(() => {
+            x.y
+        }, /Observable .*\.y is being read outside a reactive context/)
+        utils.consoleWarn(() => {
+            arr.length
+        }, /Observable ObservableArray@\d+ is being read outside a reactive context/)
+    } finally {
+        mobx.configure({ observableRequiresReaction: false })
+    }
+})
+
+test("no warnings for observable reads in reactive contexts", function() {
+    const warn = console.warn
+    const warnings = []
+    console.warn = msg => warnings.push(msg)
+    try {
+        mobx.configure({ observableRequiresReaction: true })
+        const x = mobx.observable({
+            y: 3,
+            get yy() {
+                return this.y * 2
+            }
+        })
+        const d = mobx.autorun(() => x.y)
+        mobx.runInAction(() => x.y++)
+        mobx.computed(() => x.y).get()
+        mobx.reaction(() => x.y, y => x.y + y)
+        mobx.runInAction(() => x.y++)
+        d()
+        expect(warnings).toEqual([])
+    } finally {
+        console.warn = warn
+        mobx.configure({ observableRequiresReaction: false })
+    }
+})
@@ -53,3 +53,71 @@ test("trace", () => {
         console.log = baselog
     }
 })
+
+test("trace explains why a derivation runs again", () => {
+    const baselog = console.log
+    try {
+        const lines = []
+        console.log = function(line) {
+            lines.push(line)
+        }
+
+        const store = mobx.observable({ items: [1, 2], price: 3 }, {}, { name: "store" })
+        const setPrice = mobx.action("setPrice", price => (store.price = price))
+        const d = mobx.autorun(
+            r => {
+                r.trace()
+                store.items.length + store.price
+            },
+            { name: "render" }
+        )
+        lines.splice(0)
+
+        setPrice(4)
+        expect(lines).toEqual([
+            "[mobx.trace] 'render' is invalidated due to a change in: 'store.price'",
+            "[mobx.trace] 'render' is running again because 'store.price' changed from 3 to 4 in action 'setPrice'"
+        ])
+        lines.splice(0)
+
+        store.items.push(3)
+        expect(lines).toEqual([
+            "[mobx.trace] 'render' is invalidated due to a change in: 'store.items'",
+            "[mobx.trace] 'render' is running again because 'store.items' changed"
+        ])
+        d()
+        expect(() => mobx.whyRun).toThrow(/Use 'trace\(\)'/)
+    } finally {
+        console.log = baselog
+    }
+})
+
+test("trace names the action that changed a computed value", () => {
+    const baselog = console.log
+    try {
+        const lines = []
+        console.log = function(line) {
+            lines.push(line)
+        }
+
+        const x = mobx.observable.box(1, { name: "x" })
+        const c = mobx.computed(() => x.get() * 2, { name: "c" })
+        const d = mobx.autorun(
+            r => {
+                r.trace()
+                c.get()
+            },
+            { name: "render" }
+        )
+        lines.splice(0)
+
+        mobx.runInAction("bump", () => x.set(3))
+        expect(lines).toEqual([
+            "[mobx.trace] 'render' is invalidated due to a change in: 'c'",
+            "[mobx.trace] 'render' is running again because 'c' changed from 2 to 6 in action 'bump'"
+        ])
+        d()
+    } finally {
+        console.log = baselog
+    }
+})
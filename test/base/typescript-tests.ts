@@ -478,6 +478,8 @@ function normalizeSpyEvents(events: any[]) {
     events.forEach(ev => {
         delete ev.fn
         delete ev.time
+        delete ev.id
+        delete ev.parentId
     })
     return events
 }
@@ -502,11 +504,11 @@ test("action decorator (typescript)", () => {
 
     t.deepEqual(normalizeSpyEvents(events), [
         { arguments: [3, 4], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [2, 2], name: "add", spyReportStart: true, object: store2, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [1, 1], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -538,7 +540,7 @@ test("custom action decorator (typescript)", () => {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [2, 2],
             name: "zoem zoem",
@@ -546,7 +548,7 @@ test("custom action decorator (typescript)", () => {
             object: store2,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [1, 1],
             name: "zoem zoem",
@@ -554,7 +556,7 @@ test("custom action decorator (typescript)", () => {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -582,11 +584,11 @@ test("action decorator on field (typescript)", () => {
 
     t.deepEqual(normalizeSpyEvents(events), [
         { arguments: [3, 4], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [4, 5], name: "add", spyReportStart: true, object: store2, type: "action" },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         { arguments: [2, 2], name: "add", spyReportStart: true, object: store1, type: "action" },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -619,7 +621,7 @@ test("custom action decorator on field (typescript)", () => {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [4, 5],
             name: "zoem zoem",
@@ -627,7 +629,7 @@ test("custom action decorator on field (typescript)", () => {
             object: store2,
             type: "action"
         },
-        { spyReportEnd: true },
+        { type: "report-end", spyReportEnd: true },
         {
             arguments: [2, 2],
             name: "zoem zoem",
@@ -635,7 +637,7 @@ test("custom action decorator on field (typescript)", () => {
             object: store1,
             type: "action"
         },
-        { spyReportEnd: true }
+        { type: "report-end", spyReportEnd: true }
     ])
 
     d()
@@ -0,0 +1,143 @@
+"use strict"
+
+const mobx = require("../../src/mobx.ts")
+const { observable, createUndoManager, getSnapshot } = mobx
+
+function createStore() {
+    return observable({
+        title: "todos",
+        todos: [{ title: "a", done: false }]
+    })
+}
+
+test("undo and redo single changes", () => {
+    const store = createStore()
+    const undoManager = createUndoManager(store)
+    expect(undoManager.canUndo).toBe(false)
+    expect(undoManager.canRedo).toBe(false)
+
+    store.title = "changed"
+    store.todos[0].done = true
+    expect(undoManager.canUndo).toBe(true)
+
+    undoManager.undo()
+    expect(store.todos[0].done).toBe(false)
+    expect(store.title).toBe("changed")
+    expect(undoManager.canRedo).toBe(true)
+
+    undoManager.undo()
+    expect(store.title).toBe("todos")
+    expect(undoManager.canUndo).toBe(false)
+    expect(() => undoManager.undo()).toThrow(/nothing to undo/)
+
+    undoManager.redo()
+    undoManager.redo()
+    expect(getSnapshot(store)).toEqual({ title: "changed", todos: [{ title: "a", done: true }] })
+    expect(undoManager.canRedo).toBe(false)
+    expect(() => undoManager.redo()).toThrow(/nothing to redo/)
+    undoManager.dispose()
+})
+
+test("changes are grouped per outermost action or transaction", () => {
+    const store = createStore()
+    const undoManager = createUndoManager(store)
+    const addTodo = mobx.action(title => {
+        store.todos.push({ title, done: false })
+        store.title = "todos (" + store.todos.length + ")"
+    })
+
+    mobx.runInAction(() => {
+        addTodo("b")
+        addTodo("c")
+    })
+    mobx.transaction(() => {
+        store.todos[0].done = true
+        store.todos.shift()
+    })
+    expect(getSnapshot(store)).toEqual({
+        title: "todos (3)",
+        todos: [{ title: "b", done: false }, { title: "c", done: false }]
+    })
+
+    undoManager.undo()
+    expect(store.todos.length).toBe(3)
+    expect(store.todos[0].done).toBe(false)
+    undoManager.undo()
+    expect(getSnapshot(store)).toEqual({ title: "todos", todos: [{ title: "a", done: false }] })
+    undoManager.redo()
+    expect(store.title).toBe("todos (3)")
+    expect(store.todos.length).toBe(3)
+    undoManager.dispose()
+})
+
+test("new changes discard the redo history", () => {
+    const store = createStore()
+    const undoManager = createUndoManager(store)
+    store.title = "1"
+    store.title = "2"
+    undoManager.undo()
+    expect(undoManager.canRedo).toBe(true)
+    store.title = "3"
+    expect(undoManager.canRedo).toBe(false)
+    undoManager.undo()
+    expect(store.title).toBe("1")
+    undoManager.clear()
+    expect(undoManager.canUndo).toBe(false)
+    undoManager.dispose()
+})
+
+test("canUndo and canRedo are observable", () => {
+    mobx.configure({ enforceActions: true })
+    try {
+        const store = createStore()
+        const undoManager = createUndoManager(store)
+        const values = []
+        const d = mobx.autorun(() => values.push([undoManager.canUndo, undoManager.canRedo]))
+
+        mobx.runInAction(() => (store.title = "x"))
+        undoManager.undo()
+        undoManager.redo()
+        expect(values).toEqual([[false, false], [true, false], [false, true], [true, false]])
+        d()
+        undoManager.dispose()
+    } finally {
+        mobx.configure({ enforceActions: false })
+    }
+})
+
+test("disposed undo manager stops recording", () => {
+    const store = createStore()
+    const undoManager = createUndoManager(store)
+    undoManager.dispose()
+    store.title = "x"
+    expect(undoManager.canUndo).toBe(false)
+})
+
+test("undo and redo swapping items", () => {
+    const store = createStore()
+    store.todos.push({ title: "b", done: false })
+    const undoManager = createUndoManager(store)
+    const [a, b] = store.todos.slice()
+
+    mobx.runInAction(() => {
+        store.todos[0] = b
+        store.todos[1] = a
+    })
+    expect(getSnapshot(store.todos)).toEqual([
+        { title: "b", done: false },
+        { title: "a", done: false }
+    ])
+
+    undoManager.undo()
+    expect(getSnapshot(store.todos)).toEqual([
+        { title: "a", done: false },
+        { title: "b", done: false }
+    ])
+    undoManager.redo()
+    store.todos[1].done = true
+    expect(getSnapshot(store.todos)).toEqual([
+        { title: "b", done: false },
+        { title: "a", done: true }
+    ])
+    undoManager.dispose()
+})